@@ -0,0 +1,34 @@
+import { accuracyBy, accuracyStats, listReports } from "@/app/lib/reports";
+
+export const runtime = "nodejs";
+
+/**
+ * How well the ☀️/⛅/☁️ labels match "I'm here" reports: precision and recall
+ * per class, overall and by shadow method, arrondissement and Paris hour.
+ * `since=<ISO time>` limits the reports considered.
+ */
+export async function GET(request: Request) {
+  const sinceParam = new URL(request.url).searchParams.get('since');
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+
+  if (since && isNaN(since.getTime())) {
+    return new Response(JSON.stringify({ error: "invalid_since" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const reports = await listReports(since);
+  const payload = {
+    since: since?.toISOString() ?? null,
+    reports: reports.length,
+    overall: accuracyStats(reports),
+    byMethod: accuracyBy(reports, report => report.predicted?.method ?? null),
+    byArrondissement: accuracyBy(reports, report => report.arrondissement),
+    byHour: accuracyBy(reports, report => report.hour),
+  };
+
+  return new Response(JSON.stringify(payload), {
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -0,0 +1,30 @@
+import { loadAreas } from "@/app/lib/areas";
+
+export const runtime = "nodejs";
+
+/**
+ * Arrondissement (default) or `level=quartier` boundaries as GeoJSON, for
+ * shading the map with the per-area aggregates from `/api/sunscore`.
+ * Answers 503 until `npm run fetch-areas` has written the boundaries.
+ */
+export async function GET(request: Request) {
+  const level = new URL(request.url).searchParams.get('level') === 'quartier' ? 'quartier' : 'arrondissement';
+  const areas = await loadAreas(level);
+
+  if (areas.features.length === 0) {
+    return new Response(JSON.stringify({
+      error: "areas_unavailable",
+      message: `No ${level} boundaries in public/geo, run npm run fetch-areas`,
+    }), {
+      status: 503,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify(areas), {
+    headers: {
+      "content-type": "application/geo+json",
+      "cache-control": "public, max-age=86400",
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { GET as getCafes } from "@/app/api/cafes/route";
+import { isModerator, listCorrections, parseCorrectionInput, submitCorrection } from "@/app/lib/corrections";
+import { CATEGORIES, parseCategory } from "@/app/lib/categories";
+import type { CategoryId } from "@/app/lib/categories";
+import { cafeIdFromParams } from "@/app/lib/cafe-id";
+import type { CafeIdParams } from "@/app/lib/cafe-id";
+
+export const runtime = "nodejs";
+
+type Params = { params: CafeIdParams };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Whether the café is in its category's dataset, null when there is no data
+ */
+async function cafeExists(cafeId: string, category: CategoryId): Promise<boolean | null> {
+  const cafesResponse = await getCafes(new Request(`http://localhost/api/cafes?categories=${category}`));
+  if (!cafesResponse.ok) return null;
+  return ((await cafesResponse.json()).cafes ?? []).some((cafe: any) => cafe.id === cafeId);
+}
+
+/**
+ * Approved corrections for a café. Moderators also see pending and rejected ones.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const cafeId = cafeIdFromParams(params);
+  if (!cafeId) return json({ error: "invalid_cafe_id" }, 404);
+
+  const corrections = await listCorrections(isModerator(request) ? { cafeId } : { cafeId, status: 'approved' });
+  return json({ cafeId, count: corrections.length, corrections });
+}
+
+/**
+ * Submit a correction (`bearing`, `outdoorSeating`, `note`, optional
+ * `author`) for a known café of the `?category=` given, as on the café
+ * endpoint. It waits for moderation before taking effect.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const cafeId = cafeIdFromParams(params);
+  if (!cafeId) return json({ error: "invalid_cafe_id" }, 404);
+
+  const category = parseCategory(new URL(request.url).searchParams.get('category'));
+  if (!category) {
+    return json({ error: "invalid_category", message: `category must be one of ${CATEGORIES.map(c => c.id).join(", ")}` }, 400);
+  }
+
+  const exists = await cafeExists(cafeId, category);
+  if (exists === null) return json({ error: "no_data_available" }, 503);
+  if (!exists) return json({ error: "cafe_not_found" }, 404);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "invalid_json" }, 400);
+  }
+
+  const input = parseCorrectionInput(body);
+  if (typeof input === "string") return json({ error: "invalid_correction", message: input }, 400);
+
+  const correction = await submitCorrection(cafeId, input);
+  console.log(`📝 Correction ${correction.id} submitted for ${cafeId}`);
+  return json(correction, 201);
+}
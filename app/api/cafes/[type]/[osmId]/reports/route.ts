@@ -0,0 +1,95 @@
+import { GET as getCafes } from "@/app/api/cafes/route";
+import { GET as getSunScores } from "@/app/api/sunscore/route";
+import { CATEGORIES, parseCategory } from "@/app/lib/categories";
+import { cafeIdFromParams } from "@/app/lib/cafe-id";
+import { addReport, observationFromLabel, SUN_OBSERVATIONS } from "@/app/lib/reports";
+import type { CafeIdParams } from "@/app/lib/cafe-id";
+import type { SunObservation, SunPrediction } from "@/app/lib/reports";
+
+export const runtime = "nodejs";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * What the API predicts for the café right now: the 15-minute step closest to
+ * `now`, with the shadow method and confidence from explain mode
+ */
+async function predictNow(cafeId: string, category: string, now: Date): Promise<SunPrediction | null> {
+  try {
+    const url = `http://localhost/api/sunscore?hours=1&step=15&explain=1&id=${encodeURIComponent(cafeId)}&categories=${category}&now=${now.toISOString()}`;
+    const response = await getSunScores(new Request(url));
+    if (!response) return null;
+    const data = await response.json();
+    const cafe = data.cafes?.find((c: any) => c.id === cafeId);
+    const hours: string[] = data.hours ?? [];
+    if (!cafe || hours.length === 0) return null;
+
+    let step = 0;
+    hours.forEach((time, i) => {
+      const distance = Math.abs(new Date(time).getTime() - now.getTime());
+      if (distance < Math.abs(new Date(hours[step]).getTime() - now.getTime())) step = i;
+    });
+
+    const label = cafe.labelByHour[step];
+    const factors = cafe.explain?.factorsByHour?.[step];
+    return {
+      time: hours[step],
+      score: cafe.scoreByHour[step],
+      label,
+      observation: observationFromLabel(label),
+      method: factors?.method ?? 'heuristic',
+      confidence: factors?.confidence ?? 0,
+    };
+  } catch (error) {
+    console.error(`Prediction for report on ${cafeId} failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * "I'm here": `{ "observed": "sunny" | "partial" | "shade" }` for a café of
+ * the `?category=` given, as on the café endpoint
+ */
+export async function POST(request: Request, { params }: { params: CafeIdParams }) {
+  const cafeId = cafeIdFromParams(params);
+  if (!cafeId) return json({ error: "invalid_cafe_id" }, 404);
+
+  const category = parseCategory(new URL(request.url).searchParams.get('category'));
+  if (!category) {
+    return json({ error: "invalid_category", message: `category must be one of ${CATEGORIES.map(c => c.id).join(", ")}` }, 400);
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "invalid_json" }, 400);
+  }
+  if (!SUN_OBSERVATIONS.includes(body?.observed)) {
+    return json({ error: "invalid_observation", message: `observed must be one of ${SUN_OBSERVATIONS.join(", ")}` }, 400);
+  }
+  const observed: SunObservation = body.observed;
+
+  const cafesResponse = await getCafes(new Request(`http://localhost/api/cafes?categories=${category}`));
+  if (!cafesResponse.ok) return json({ error: "no_data_available" }, 503);
+  const cafe = (await cafesResponse.json()).cafes?.find((c: any) => c.id === cafeId);
+  if (!cafe) return json({ error: "cafe_not_found" }, 404);
+
+  const now = new Date();
+  const report = await addReport({
+    cafeId,
+    observed,
+    reportedAt: now.toISOString(),
+    hour: parseInt(now.toLocaleString("en-GB", { timeZone: "Europe/Paris", hour: "2-digit", hourCycle: "h23" })),
+    arrondissement: cafe.arrondissement ?? null,
+    predicted: await predictNow(cafeId, category, now),
+  });
+
+  console.log(`📍 ${observed} report for ${cafeId} (predicted ${report.predicted?.observation ?? "unknown"})`);
+  return json(report, 201);
+}
@@ -0,0 +1,106 @@
+import { GET as getCafes } from "@/app/api/cafes/route";
+import { GET as getSunScores } from "@/app/api/sunscore/route";
+import { CATEGORIES, parseCategory } from "@/app/lib/categories";
+import { cafeIdFromParams } from "@/app/lib/cafe-id";
+import { daylightBounds } from "@/app/lib/sun";
+import type { CafeIdParams } from "@/app/lib/cafe-id";
+
+export const runtime = "nodejs";
+
+// Open-Meteo keeps recent history and forecasts a week ahead
+const MAX_PAST_DAYS = 30;
+const MAX_FUTURE_DAYS = 6;
+
+// Profiles start before the earliest Paris sunrise, late enough that the
+// Paris and UTC dates agree (the weather lookup goes by UTC date)
+const PROFILE_START_HOUR = 4;
+
+const PROFILE_STEPS = [15, 30, 60];
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const parisDate = (dt: Date) => dt.toLocaleDateString("en-CA", { timeZone: "Europe/Paris" });
+
+/**
+ * `hour`:00 Paris time on a YYYY-MM-DD date
+ */
+function parisTime(date: string, hour: number): Date {
+  const guess = new Date(`${date}T${String(hour).padStart(2, "0")}:00:00Z`);
+  const paris = new Date(guess.toLocaleString("en-US", { timeZone: "Europe/Paris" }));
+  const utc = new Date(guess.toLocaleString("en-US", { timeZone: "UTC" }));
+  return new Date(guess.getTime() - (paris.getTime() - utc.getTime()));
+}
+
+/**
+ * One café with its sunrise-to-sunset sun profile. `date=YYYY-MM-DD` (Paris,
+ * default today, from 30 days back to 6 ahead), `step=15|30|60` minutes
+ * (default 15), the café's `category=` (required) and `explain=1` for the
+ * per-step factors.
+ */
+export async function GET(request: Request, { params }: { params: CafeIdParams }) {
+  const cafeId = cafeIdFromParams(params);
+  if (!cafeId) return json({ error: "invalid_cafe_id" }, 404);
+
+  const url = new URL(request.url);
+  const date = url.searchParams.get('date') ?? parisDate(new Date());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    return json({ error: "invalid_date" }, 400);
+  }
+
+  const dayOffset = Math.round((new Date(date).getTime() - new Date(parisDate(new Date())).getTime()) / 86400000);
+  if (dayOffset < -MAX_PAST_DAYS || dayOffset > MAX_FUTURE_DAYS) {
+    return json({ error: "date_out_of_range", message: `date must be within ${MAX_PAST_DAYS} days back and ${MAX_FUTURE_DAYS} ahead` }, 400);
+  }
+
+  const stepParam = parseInt(url.searchParams.get('step') ?? '15');
+  const step = PROFILE_STEPS.includes(stepParam) ? stepParam : 15;
+  const explain = url.searchParams.get('explain') === '1';
+
+  const category = parseCategory(url.searchParams.get('category'));
+  if (!category) {
+    return json({ error: "invalid_category", message: `category must be one of ${CATEGORIES.map(c => c.id).join(", ")}` }, 400);
+  }
+  const cafesResponse = await getCafes(new Request(`http://localhost/api/cafes?categories=${category}`));
+  if (!cafesResponse.ok) return json({ error: "no_data_available" }, 503);
+  const cafe = (await cafesResponse.json()).cafes?.find((c: any) => c.id === cafeId);
+  if (!cafe) return json({ error: "cafe_not_found" }, 404);
+
+  // Single-café sunscore runs score exactly this café, whatever the sample limit
+  const start = parisTime(date, PROFILE_START_HOUR);
+  const scoreUrl = `http://localhost/api/sunscore?days=1&step=${step}&explain=1&id=${encodeURIComponent(cafeId)}`
+    + `&categories=${category}&now=${start.toISOString()}`;
+  const scoreResponse = await getSunScores(new Request(scoreUrl));
+  const scores = scoreResponse?.ok ? await scoreResponse.json() : null;
+  const scored = scores?.cafes?.find((c: any) => c.id === cafeId);
+
+  const { sunrise, sunset } = daylightBounds(parisTime(date, 12), cafe.lat, cafe.lon);
+  const profile = scored && {
+    hours: scores.hours,
+    conditions: scores.conditions,
+    labelByHour: scored.labelByHour,
+    scoreByHour: scored.scoreByHour,
+    comfortByHour: scored.comfortByHour,
+    feelsLikeByHour: scored.feelsLikeByHour,
+    ...(scored.openByHour && { openByHour: scored.openByHour }),
+    ...(scored.terraceSunByHour && { terraceSunByHour: scored.terraceSunByHour }),
+    sunWindows: scored.sunWindows,
+    summary: scored.dailySummaries?.find((summary: any) => summary.date === date) ?? null,
+    orientation: scored.explain?.orientation,
+    ...(explain && { factorsByHour: scored.explain?.factorsByHour }),
+  };
+
+  return json({
+    cafe,
+    date,
+    stepMinutes: step,
+    sunrise: sunrise.toISOString(),
+    sunset: sunset.toISOString(),
+    profile: profile ?? null, // null when weather for the date is unavailable
+    ...(scores?.meta && { shadowMethod: scores.meta.shadowMethod }),
+  });
+}
@@ -0,0 +1,39 @@
+import { parseCategories } from "@/app/lib/categories";
+import { getCafeChanges } from "@/app/lib/cafe-changes";
+
+export const runtime = "nodejs";
+
+/**
+ * Change log of the café datasets: `since=<ISO time>` (default: everything
+ * logged), `categories=` as in `/api/cafes`. Oldest change first.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const sinceParam = url.searchParams.get('since');
+  const since = sinceParam ? new Date(sinceParam) : null;
+
+  if (since && isNaN(since.getTime())) {
+    return new Response(JSON.stringify({ error: "invalid_since" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const categories = parseCategories(url.searchParams.get('categories'));
+  const logs = await Promise.all(categories.map(getCafeChanges));
+  const changes = logs
+    .flat()
+    .filter(change => !since || new Date(change.at) > since)
+    .sort((a, b) => a.at.localeCompare(b.at));
+
+  const payload = {
+    since: since?.toISOString() ?? null,
+    categories,
+    count: changes.length,
+    changes,
+  };
+
+  return new Response(JSON.stringify(payload), {
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -1,191 +1,357 @@
-import fsp from "fs/promises";
-import path from "path";
 import { cache, CACHE_TIMES, buildCafeKey } from "@/app/lib/cache";
+import { assignStreetOrientations } from "@/app/lib/orientation";
+import { elementFootprint, elementCenter } from "@/app/lib/footprint";
+import { parseCategories, getCategory, categorize } from "@/app/lib/categories";
+import { assignTerraces } from "@/app/lib/terraces";
+import { diffCafes, recordCafeChanges } from "@/app/lib/cafe-changes";
+import { normalizeCafes } from "@/app/lib/normalize";
+import { getCafeSource, seedSource } from "@/app/lib/cafe-sources";
+import { applyCorrections, getApprovedCorrections } from "@/app/lib/corrections";
+import { assignAreas, parseArrondissements } from "@/app/lib/areas";
+import { datasetVersion, getGridIndex, matchesQuery, paginate, parseCafeQuery, queryBBox, searchGrid, sortByDistance } from "@/app/lib/cafe-query";
+import type { CategoryId } from "@/app/lib/categories";
+import type { CafeOrientation, StreetWay } from "@/app/lib/orientation";
+import type { Footprint } from "@/app/lib/footprint";
+import type { CafeTerrace, TerraceArea } from "@/app/lib/terraces";
+import type { MissingField } from "@/app/lib/normalize";
+import type { CafeSource } from "@/app/lib/cafe-sources";
+import type { CafeCorrection } from "@/app/lib/corrections";
+import type { CafeArea } from "@/app/lib/areas";
 
 export const runtime = "nodejs";
 
-type Cafe = {
+type Cafe = CafeArea & {
   id: string;
   name: string | null;
   lat: number;
   lon: number;
   tags: Record<string, any>;
+  category: CategoryId | null;
+  orientation?: CafeOrientation;
+  footprint?: Footprint; // building outline for cafés mapped as ways/relations
+  terrace?: CafeTerrace; // linked leisure=outdoor_seating area
+  missing?: MissingField[]; // essentials absent from the OSM data
+  mergedIds?: string[]; // near-duplicates folded into this entry
+  correction?: CafeCorrection; // approved community corrections
+  distance?: number; // meters from `near`, only in near queries
 };
 
-async function loadSeed(): Promise<any> {
-  const seedPath = path.join(process.cwd(), "public", "cafes.seed.json");
-  const seedTxt = await fsp.readFile(seedPath, "utf8");
-  return JSON.parse(seedTxt);
+/**
+ * Convert an Overpass node, way or relation into a café. Ids keep the OSM type
+ * prefix (`node/1`, `way/123`, `relation/456`) so they stay stable across refreshes.
+ */
+function cafeFromElement(el: any): Cafe | null {
+  const footprint = el.type === "node" ? null : elementFootprint(el);
+  const center = elementCenter(el, footprint);
+  if (!center) return null;
+  
+  return {
+    id: `${el.type}/${el.id}`,
+    name: el.tags?.name ?? null,
+    lat: center[1],
+    lon: center[0],
+    tags: el.tags,
+    category: categorize(el.tags),
+    ...(footprint && { footprint }),
+  };
 }
 
-// Simple Overpass query for cafes (back to working version)
-async function fetchOverpassCafes(): Promise<Cafe[]> {
-  const query = `
-[out:json][timeout:30];
-node["amenity"="cafe"](48.8156,2.2242,48.9022,2.4699);
-out body;
-`;
+// Places in a category, mapped as points, building outlines or multipolygons
+function parseCafes(elements: any[], categoryId: CategoryId): Cafe[] {
+  const category = getCategory(categoryId);
+  return elements
+    .filter((el: any) => ["node", "way", "relation"].includes(el.type) && category.matches(el.tags ?? {}))
+    .map(cafeFromElement)
+    .filter((cafe: Cafe | null): cafe is Cafe => cafe !== null);
+}
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 25000); // Reduced for Vercel
+/**
+ * Attach street orientation and terrace geometry. Both are optional: sunscore
+ * falls back to the location heuristic and the café point without them.
+ * `newer` limits the lookups to places edited since then.
+ */
+async function withStreetOrientations(
+  cafes: Cafe[],
+  categoryId: CategoryId,
+  source: CafeSource,
+  newer?: string
+): Promise<Cafe[]> {
+  let streets: StreetWay[] = [];
+  try {
+    streets = await source.fetchStreets(categoryId, newer);
+  } catch (err) {
+    console.error("Street fetch failed, skipping orientation:", err);
+  }
   
+  let terraces: TerraceArea[] = [];
   try {
-    // Try primary Overpass API, fallback to alternative
-    let res;
-    try {
-      res = await fetch("https://overpass-api.de/api/interpreter", {
-        method: "POST",
-        headers: {
-          "content-type": "application/x-www-form-urlencoded",
-          "User-Agent": "KinParisCoffeeShades/0.1",
-        },
-        body: new URLSearchParams({ data: query }),
-        signal: controller.signal,
-      });
-    } catch (error) {
-      console.warn("Primary Overpass API failed, trying fallback:", error);
-      res = await fetch("https://lz4.overpass-api.de/api/interpreter", {
-        method: "POST",
-        headers: {
-          "content-type": "application/x-www-form-urlencoded",
-          "User-Agent": "KinParisCoffeeShades/0.1",
-        },
-        body: new URLSearchParams({ data: query }),
-        signal: controller.signal,
-      });
-    }
-    clearTimeout(timeout);
-    
-    if (!res.ok) throw new Error(`Overpass ${res.status}`);
-    const json = await res.json();
-    
-    const cafes: Cafe[] = (json?.elements ?? [])
-      .filter((el: any) => el.type === "node" && el.tags?.amenity === "cafe")
-      .map((el: any) => ({
-        id: `node/${el.id}`,
-        name: el.tags?.name ?? null,
-        lat: el.lat,
-        lon: el.lon,
-        tags: el.tags,
-      }));
-      
-    return cafes;
-  } finally {
-    clearTimeout(timeout);
+    terraces = await source.fetchTerraces(categoryId, newer);
+  } catch (err) {
+    console.error("Terrace fetch failed, skipping terrace geometry:", err);
   }
+  
+  return assignTerraces(assignStreetOrientations(cafes, streets), terraces, streets);
 }
 
-export async function GET() {
-  const cacheKey = buildCafeKey();
+export async function GET(request?: Request) {
+  const searchParams = request ? new URL(request.url).searchParams : null;
+  const categories = parseCategories(searchParams?.get('categories'));
+  const arrondissements = parseArrondissements(searchParams?.get('arrondissement'));
+  const query = parseCafeQuery(searchParams);
+  
+  if (typeof query === "string") {
+    return new Response(JSON.stringify({ error: query }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  
+  const results = await Promise.all(categories.map(getCategoryPayload));
+  const available = results.filter((result): result is CategoryResult => result !== null);
+  
+  if (available.length === 0) {
+    return new Response(JSON.stringify({ error: "no_data_available" }), {
+      status: 503,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  
+  // bbox/near narrow each category through its grid index
+  const bbox = queryBBox(query);
+  const candidates = available.flatMap(({ payload }) =>
+    bbox ? searchGrid(getGridIndex(payload.category, payload.updatedAt, payload.cafes), bbox) : payload.cafes
+  );
+  
+  // Categories can overlap (a brasserie is also a restaurant), keep the first copy
+  const byId = new Map<string, Cafe>();
+  for (const cafe of candidates) {
+    if (byId.has(cafe.id)) continue;
+    if (arrondissements && !arrondissements.includes(cafe.arrondissement ?? 0)) continue;
+    byId.set(cafe.id, cafe);
+  }
+  
+  // Approved corrections apply on every request, so approvals show up without a resync.
+  // Tag filters run after them since a correction can change outdoor_seating.
+  const matching = applyCorrections(Array.from(byId.values()), await getApprovedCorrections())
+    .filter(cafe => matchesQuery(cafe, query));
+  const sorted: Cafe[] = query.near ? sortByDistance(matching, query.near) : matching;
+  
+  const version = datasetVersion(available.map(result => `${result.payload.category}@${result.payload.updatedAt}`));
+  const pagination = paginate(sorted, query, version);
+  
+  if (!pagination) {
+    return new Response(JSON.stringify({ error: "stale_cursor" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  
+  const cafes = pagination.page;
+  const payload = {
+    updatedAt: available.map(result => result.payload.updatedAt).sort()[0], // oldest category
+    count: cafes.length,
+    total: sorted.length, // matches across all pages
+    nextCursor: pagination.nextCursor,
+    oriented: cafes.filter(cafe => cafe.orientation).length,
+    withFootprint: cafes.filter(cafe => cafe.footprint).length,
+    withTerrace: cafes.filter(cafe => cafe.terrace).length,
+    incomplete: cafes.filter(cafe => cafe.missing).length,
+    corrected: cafes.filter(cafe => cafe.correction).length,
+    categories,
+    arrondissements,
+    source: Array.from(new Set(available.map(result => result.payload.source))).join("+"),
+    cafes,
+  };
+  
+  return new Response(JSON.stringify(payload), {
+    headers: { 
+      "content-type": "application/json", 
+      "x-cache": Array.from(new Set(available.map(result => result.cache))).join(","),
+      "x-cache-status": Array.from(new Set(available.map(result => result.cacheStatus))).join(",")
+    },
+  });
+}
+
+type CategoryPayload = {
+  updatedAt: string;
+  count: number;
+  source: string;
+  sync?: "full" | "incremental";
+  category: CategoryId;
+  cafes: Cafe[];
+};
+
+type CategoryResult = {
+  payload: CategoryPayload;
+  cache: "HIT" | "MISS" | "SEED";
+  cacheStatus: "fresh" | "stale-while-revalidate" | "fresh-fetch" | "fallback";
+};
+
+/**
+ * One category's places, each cached separately with SWR
+ */
+async function getCategoryPayload(category: CategoryId): Promise<CategoryResult | null> {
+  const cacheKey = buildCafeKey(category);
   
   // 1. Check smart cache with SWR support
-  const { data: cached, isStale, shouldRefresh } = await cache.get(cacheKey);
+  const { data: cached, isStale, shouldRefresh } = await cache.get<CategoryPayload>(cacheKey);
   
   // 2. If we have fresh data, return it immediately
   if (cached && !isStale) {
-    return new Response(JSON.stringify(cached), {
-      headers: { 
-        "content-type": "application/json", 
-        "x-cache": "HIT",
-        "x-cache-status": "fresh"
-      },
-    });
+    return { payload: cached, cache: "HIT", cacheStatus: "fresh" };
   }
   
   // 3. If we have stale data but should refresh in background
   if (cached && isStale && shouldRefresh) {
-    // Return stale data immediately for best UX
-    const response = new Response(JSON.stringify(cached), {
-      headers: { 
-        "content-type": "application/json", 
-        "x-cache": "HIT",
-        "x-cache-status": "stale-while-revalidate"
-      },
-    });
-    
-    // Background refresh (don't await)
-    refreshCafesInBackground(cacheKey);
+    // Background refresh (don't await), syncing only what changed
+    refreshCafesInBackground(category, cacheKey, cached);
     
-    return response;
+    // Return stale data immediately for best UX
+    return { payload: cached, cache: "HIT", cacheStatus: "stale-while-revalidate" };
   }
 
   // 4. No cached data or expired - fetch fresh
-  return await fetchFreshCafes(cacheKey);
+  return await fetchFreshCafes(category, cacheKey);
 }
 
-async function refreshCafesInBackground(cacheKey: string) {
+async function refreshCafesInBackground(category: CategoryId, cacheKey: string, previous: CategoryPayload) {
   try {
-    console.log('🔄 Background refresh started for cafés');
-    await fetchFreshCafes(cacheKey, true);
+    console.log(`🔄 Background refresh started for ${category}`);
+    await fetchFreshCafes(category, cacheKey, previous);
     console.log('✅ Background refresh completed');
   } catch (error) {
     console.error('❌ Background refresh failed:', error);
   }
 }
 
-async function fetchFreshCafes(cacheKey: string, isBackgroundRefresh = false) {
-  // Try to fetch fresh data from Overpass
-  try {
-    const cafes = await fetchOverpassCafes();
-    if (cafes.length > 0) {
-      const payload = {
-        updatedAt: new Date().toISOString(),
-        count: cafes.length,
-        source: "overpass",
-        cafes,
-      };
-      
-      // Cache with 14-day TTL + 1-day SWR
-      await cache.set(cacheKey, payload, {
-        ttl: CACHE_TIMES.CAFES,
-        swr: CACHE_TIMES.CAFES_SWR
-      });
-      
-      if (isBackgroundRefresh) return; // Don't return response for background refresh
-      
-      return new Response(JSON.stringify(payload), {
-        headers: { 
-          "content-type": "application/json", 
-          "x-cache": "MISS",
-          "x-cache-status": "fresh-fetch"
-        },
-      });
+/**
+ * Merge places edited since the previous sync into its dataset. Places whose
+ * id is gone from the category were deleted or lost their tags.
+ */
+async function syncIncrementally(category: CategoryId, source: CafeSource, previous: CategoryPayload): Promise<Cafe[]> {
+  const { ids, elements } = await source.fetchEdits!(category, previous.updatedAt);
+  if (ids.size === 0) throw new Error(`${source.name} returned no ids`);
+  
+  const edited = parseCafes(elements, category);
+  const updated = new Map<string, Cafe>();
+  if (edited.length > 0) {
+    for (const cafe of await withStreetOrientations(edited, category, source, previous.updatedAt)) {
+      updated.set(cafe.id, cafe);
     }
-  } catch (err) {
-    console.error("Overpass fetch failed:", err);
   }
+  
+  const kept = previous.cafes
+    .filter(cafe => ids.has(cafe.id))
+    .map(cafe => updated.get(cafe.id) ?? cafe);
+  const keptIds = new Set(kept.map(cafe => cafe.id));
+  
+  return [...kept, ...Array.from(updated.values()).filter(cafe => !keptIds.has(cafe.id))];
+}
 
-  // Fall back to seed data
-  try {
-    const seed = await loadSeed();
-    const payload = { ...seed, source: "seed" };
-    
+// A category's full dataset from a source, null when it has none
+async function fetchAllCafes(category: CategoryId, source: CafeSource): Promise<Cafe[] | null> {
+  const rawCafes = parseCafes(await source.fetchPlaces(category), category);
+  return rawCafes.length > 0 ? withStreetOrientations(rawCafes, category, source) : null;
+}
+
+async function cachePayload(cacheKey: string, payload: CategoryPayload) {
+  if (payload.source === "seed") {
     // Cache seed data with shorter TTL (1 day)
     await cache.set(cacheKey, payload, {
       ttl: 24 * 60 * 60 * 1000, // 1 day for seed data
       swr: 6 * 60 * 60 * 1000   // 6 hours SWR
     });
+  } else {
+    // Cache with 14-day TTL + 1-day SWR
+    await cache.set(cacheKey, payload, {
+      ttl: CACHE_TIMES.CAFES,
+      swr: CACHE_TIMES.CAFES_SWR
+    });
+  }
+}
+
+async function fetchFreshCafes(
+  category: CategoryId,
+  cacheKey: string,
+  previous?: CategoryPayload
+): Promise<CategoryResult | null> {
+  const source = getCafeSource();
+  
+  // Only diff against an earlier sync from the same source; the seed has no history
+  const baseline = previous?.source === source.name && source.name !== 'seed' ? previous : undefined;
+  
+  // Taken before querying so edits made during the sync are picked up next time
+  const updatedAt = new Date().toISOString();
+  
+  let cafes: Cafe[] | null = null;
+  let sync: CategoryPayload["sync"] = "full";
+  
+  if (baseline && source.fetchEdits) {
+    try {
+      cafes = await syncIncrementally(category, source, baseline);
+      sync = "incremental";
+    } catch (err) {
+      console.error(`Incremental sync failed for ${category}, running a full fetch:`, err);
+    }
+  }
+  
+  // Try to fetch fresh data from the configured source
+  if (!cafes) {
+    try {
+      cafes = await fetchAllCafes(category, source);
+    } catch (err) {
+      console.error(`${source.name} fetch failed for ${category}:`, err);
+    }
+  }
+  
+  if (cafes) {
+    // Clean names, addresses and contacts, merge near-duplicates, then place in an arrondissement
+    cafes = await assignAreas(normalizeCafes(cafes));
     
-    if (isBackgroundRefresh) return;
+    if (baseline) {
+      const changes = diffCafes(baseline.cafes, cafes, updatedAt);
+      await recordCafeChanges(category, changes);
+      console.log(`📝 ${changes.length} change(s) recorded for ${category} (${sync} sync)`);
+    }
     
-    return new Response(JSON.stringify(payload), {
-      headers: { 
-        "content-type": "application/json", 
-        "x-cache": "SEED",
-        "x-cache-status": "fallback"
-      },
-    });
+    const payload: CategoryPayload = {
+      updatedAt,
+      count: cafes.length,
+      source: source.name,
+      sync,
+      category,
+      cafes,
+    };
+    await cachePayload(cacheKey, payload);
+    
+    return source.name === 'seed'
+      ? { payload, cache: "SEED", cacheStatus: "fresh-fetch" }
+      : { payload, cache: "MISS", cacheStatus: "fresh-fetch" };
+  }
+
+  // Fall back to seed data (cafés only)
+  if (category !== 'cafe' || source.name === 'seed') return null;
+  
+  try {
+    const seedCafes = await fetchAllCafes(category, seedSource);
+    if (!seedCafes) return null;
+    
+    const payload: CategoryPayload = {
+      updatedAt,
+      count: seedCafes.length,
+      source: "seed",
+      category,
+      cafes: await assignAreas(normalizeCafes(seedCafes)),
+    };
+    await cachePayload(cacheKey, payload);
+    
+    return { payload, cache: "SEED", cacheStatus: "fallback" };
   } catch (err) {
     console.error("Seed load failed:", err);
-    if (isBackgroundRefresh) return;
-    
-    return new Response(JSON.stringify({ error: "no_data_available" }), {
-      status: 503,
-      headers: { "content-type": "application/json" },
-    });
+    return null;
   }
 }
 
-export async function POST() {
-  return GET();
-}
\ No newline at end of file
+export async function POST(request: Request) {
+  return GET(request);
+}
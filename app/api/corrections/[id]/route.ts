@@ -0,0 +1,34 @@
+import { isModerator, reviewCorrection } from "@/app/lib/corrections";
+
+export const runtime = "nodejs";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Approve or reject a correction: `{ "status": "approved" | "rejected" }`.
+ * Needs the moderation token.
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  if (!isModerator(request)) return json({ error: "forbidden" }, 403);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "invalid_json" }, 400);
+  }
+  if (body?.status !== 'approved' && body?.status !== 'rejected') {
+    return json({ error: "invalid_status", message: "status must be approved or rejected" }, 400);
+  }
+
+  const correction = await reviewCorrection(params.id, body.status);
+  if (!correction) return json({ error: "not_found" }, 404);
+
+  console.log(`✅ Correction ${correction.id} for ${correction.cafeId} ${correction.status}`);
+  return json(correction);
+}
@@ -0,0 +1,25 @@
+import { isModerator, listCorrections } from "@/app/lib/corrections";
+import type { CorrectionStatus } from "@/app/lib/corrections";
+
+export const runtime = "nodejs";
+
+/**
+ * Moderation queue: `status=pending` (default), `approved` or `rejected`.
+ * Needs the moderation token.
+ */
+export async function GET(request: Request) {
+  if (!isModerator(request)) {
+    return new Response(JSON.stringify({ error: "forbidden" }), {
+      status: 403,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const statusParam = new URL(request.url).searchParams.get('status');
+  const status: CorrectionStatus = statusParam === 'approved' || statusParam === 'rejected' ? statusParam : 'pending';
+  const corrections = await listCorrections({ status });
+
+  return new Response(JSON.stringify({ status, count: corrections.length, corrections }), {
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -0,0 +1,87 @@
+import { GET as getCafes } from "@/app/api/cafes/route";
+import { GET as getSunScores } from "@/app/api/sunscore/route";
+import { parseCategories } from "@/app/lib/categories";
+import { rankPlaces, WALK_METERS_PER_MINUTE } from "@/app/lib/recommend";
+import { clamp } from "@/app/lib/sun";
+import type { ScoredPlace } from "@/app/lib/recommend";
+
+export const runtime = "nodejs";
+
+const STEP_MINUTES = 15;
+const MAX_SUNSCORE_HOURS = 12;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const intParam = (value: string | null, fallback: number, min: number, max: number) =>
+  clamp(parseInt(value ?? '') || fallback, min, max);
+
+/**
+ * Best cafés to walk to now. `lat`, `lon` (required), `within` minutes to
+ * spend there (default 120), `maxWalkMin` (default 15), `limit` (default 5),
+ * `favorites=<id>,<id>` to favor, `categories=` and `precision=` as in
+ * `/api/sunscore`.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const lat = parseFloat(url.searchParams.get('lat') ?? '');
+  const lon = parseFloat(url.searchParams.get('lon') ?? '');
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return json({ error: "invalid_location", message: "lat and lon are required" }, 400);
+  }
+
+  const nowParam = url.searchParams.get('now');
+  const now = nowParam ? new Date(nowParam) : new Date();
+  if (isNaN(now.getTime())) return json({ error: "invalid_now" }, 400);
+
+  const within = intParam(url.searchParams.get('within'), 120, 15, 240);
+  const maxWalkMin = intParam(url.searchParams.get('maxWalkMin'), 15, 1, 45);
+  const limit = intParam(url.searchParams.get('limit'), 5, 1, 20);
+  const favorites = new Set((url.searchParams.get('favorites') ?? '').split(',').filter(Boolean));
+  const categories = parseCategories(url.searchParams.get('categories')).join(',');
+  const precision = url.searchParams.get('precision') ?? 'voxcity';
+
+  const near = `near=${lat},${lon}&radius=${maxWalkMin * WALK_METERS_PER_MINUTE}`;
+  const cafesResponse = await getCafes(new Request(`http://localhost/api/cafes?categories=${categories}&${near}`));
+  if (!cafesResponse.ok) return json({ error: "no_data_available" }, 503);
+  const distances = new Map<string, number>(
+    ((await cafesResponse.json()).cafes ?? []).map((cafe: any) => [cafe.id, cafe.distance])
+  );
+
+  // Enough steps to cover the longest walk plus the whole visit
+  const hours = Math.min(Math.ceil((maxWalkMin + within) / 60) + 1, MAX_SUNSCORE_HOURS);
+  const scoreUrl = `http://localhost/api/sunscore?hours=${hours}&step=${STEP_MINUTES}&precision=${precision}`
+    + `&categories=${categories}&${near}&limit=1000&now=${now.toISOString()}`;
+  const scoreResponse = await getSunScores(new Request(scoreUrl));
+  if (!scoreResponse?.ok) return json({ error: "scores_unavailable" }, 503);
+  const scores = await scoreResponse.json();
+
+  const places: ScoredPlace[] = (scores.cafes ?? [])
+    .filter((cafe: any) => cafe.name && distances.has(cafe.id))
+    .map((cafe: any) => ({
+      id: cafe.id,
+      name: cafe.name,
+      distance: distances.get(cafe.id)!,
+      scoreByHour: cafe.scoreByHour,
+      openByHour: cafe.openByHour,
+    }));
+
+  const recommendations = rankPlaces(places, scores.hours ?? [], { now, within, maxWalkMin, stepMinutes: STEP_MINUTES, favorites }, limit);
+  const byId = new Map<string, any>((scores.cafes ?? []).map((cafe: any) => [cafe.id, cafe]));
+
+  return json({
+    now: now.toISOString(),
+    origin: { lat, lon },
+    within,
+    maxWalkMin,
+    candidates: places.length,
+    recommendations: recommendations.map(rec => {
+      const cafe = byId.get(rec.id);
+      return { ...rec, lat: cafe.lat, lon: cafe.lon, category: cafe.category };
+    }),
+  });
+}
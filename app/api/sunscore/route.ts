@@ -1,5 +1,25 @@
-import { sunAt, labelFromScore, isAfterSunset, deg, clamp } from "@/app/lib/sun";
+import {
+  sunAt,
+  labelFromScore,
+  labelFromIrradiance,
+  terraceIrradiance,
+  isAfterSunset,
+  isDaylight,
+  deg,
+  clamp,
+  SUNNY_SCORE,
+  FULL_SUN_IRRADIANCE,
+  findSunWindows,
+  describeSunWindows
+} from "@/app/lib/sun";
 import { getVoxShadowValue, isVoxCityAvailable } from "@/app/lib/voxcity";
+import { getBuildingShadowValue } from "@/app/lib/buildings";
+import { apparentTemperature, comfortFromApparent } from "@/app/lib/comfort";
+import { parseCategories } from "@/app/lib/categories";
+import { parseArrondissements } from "@/app/lib/areas";
+import { parseOpeningHours, isOpenAt } from "@/app/lib/opening-hours";
+import { sunScoresToGeoJSON } from "@/app/lib/sun-features";
+import type { CategoryId } from "@/app/lib/categories";
 import { 
   cache, 
   CACHE_TIMES, 
@@ -10,37 +30,180 @@ import {
   alignToHour 
 } from "@/app/lib/cache";
 import type { VoxShadowResult } from "@/app/lib/voxcity";
+import type { SunWindow } from "@/app/lib/sun";
 
 export const runtime = "nodejs";
 
+type PrecisionMode = 'voxcity' | 'buildings' | 'heuristic';
+
 type SunScoreParams = {
   hours?: number;
   now?: string; // ISO string
-  precision?: 'voxcity' | 'heuristic'; // calculation mode
+  precision?: PrecisionMode; // calculation mode
+  step?: StepMinutes; // time resolution
+  threshold?: number; // minimum score for a sun window
+  model?: ScoreModel;
+};
+
+type StepMinutes = 15 | 30 | 60;
+
+// factors = product of heuristic factors, irradiance = W/m² on the terrace plane
+type ScoreModel = 'factors' | 'irradiance';
+
+const STEP_OPTIONS: StepMinutes[] = [15, 30, 60];
+
+// Open-Meteo forecasts up to 7 days ahead
+const MAX_FORECAST_DAYS = 7;
+
+// Cafés scored concurrently, and streamed, per batch
+const SCORE_BATCH_SIZE = 25;
+
+// Everything one sun score computation depends on
+type SunScoreRun = {
+  now: Date;
+  maxHours: number;
+  precision: PrecisionMode;
+  scoreModel: ScoreModel;
+  stepMinutes: StepMinutes;
+  days: number; // 0 = next-hours mode, 1-7 = multi-day mode
+  cafeLimit: number | null; // null = score every place (bbox requests)
+  categories: CategoryId[];
+  arrondissements: number[] | null; // null = all of Paris
+  near: { point: string; radius: string } | null; // passed to /api/cafes, scored before the limit
+  bbox: string | null; // south,west,north,east, passed to /api/cafes like near
+  windowThreshold: number;
+  explain: boolean;
+  cafeId: string | null; // restrict to a single café
+};
+
+type DailySunSummary = {
+  date: string; // YYYY-MM-DD, Paris time
+  sunMinutes: number; // expected minutes of sun (score-weighted)
+  bestHour: string | null;
+  bestScore: number;
+  firstSunnyHour: string | null;
+  sunWindows: SunWindow[];
+  sunSummary: string;
+};
+
+type ForecastDay = {
+  date: string; // YYYY-MM-DD, Paris time
+  start: number; // index into hours[]
+  end: number; // exclusive
+};
+
+// Multiplicative factors behind one step's score (explain mode)
+type ScoreFactors = {
+  method: PrecisionMode;
+  confidence: number;
+  shadow: number; // 0 = fully shadowed, 1 = clear
+  facing: number; // terrace orientation vs sun azimuth
+  elevation: number; // low-sun fade-in
+  cloud: number; // 1 - cloud cover
+  radiation: number; // direct radiation bonus
+  beam?: number; // W/m², irradiance model only
+  diffuse?: number; // W/m², irradiance model only
+  sunlitFraction?: number; // share of terrace samples in sun (precise methods only)
+};
+
+type CafeExplanation = {
+  orientation: { bearing: number; method: 'community' | 'terrace' | 'street' | 'heuristic'; streetName?: string | null; streetDistance?: number };
+  factorsByHour: ScoreFactors[];
 };
 
 type CafeWithScores = {
   id: string;
   name: string | null;
+  category: CategoryId | null;
   lat: number;
   lon: number;
+  arrondissement?: number;
+  quartier?: { id: number; name: string };
   labelByHour: string[];
   scoreByHour: number[];
+  irradianceByHour?: number[]; // W/m² on the terrace plane (irradiance model)
+  terrace?: { id: string; area: number; bearing: number };
+  terraceSunByHour?: (number | null)[]; // share of the terrace in sun, null when only the heuristic ran
+  openByHour?: boolean[]; // from opening_hours, absent when unknown or unparseable
+  comfortByHour: number[]; // 0-1 thermal comfort on the terrace
+  feelsLikeByHour: number[]; // °C apparent temperature on the terrace
+  sunWindows: SunWindow[];
+  sunSummary?: string; // next-hours mode only, multi-day mode summarizes per day
+  dailySummaries?: DailySunSummary[];
+  explain?: CafeExplanation;
 };
 
 type WeatherHourData = {
   time: string;
   cloudCover: number;
   directRadiation: number;
+  directNormalIrradiance: number;
+  diffuseRadiation: number;
+  temperature: number; // °C
+  windSpeed: number; // m/s at 10m
+  humidity: number; // %
+};
+
+// Per-arrondissement aggregate, for shading the map
+type AreaSunSummary = {
+  arrondissement: number;
+  cafes: number;
+  sunnyShareByHour: number[]; // share of the area's cafés labelled ☀️ at each step
+  avgScoreByHour: number[];
 };
 
+// City-wide conditions per step, for the weather header
+type StepConditions = {
+  temperature: number;
+  windSpeed: number;
+  humidity: number;
+  feelsLikeSun: number; // °C, facing the sun with no shade
+  feelsLikeShade: number; // °C
+};
+
+// `format=ndjson` lines, in order: one header, café batches, then done (or error)
+// Run summary sent with the scores and in the stream's `done` event
+type SunScoreMeta = {
+  totalCafes: number;
+  totalAvailable: number;
+  cafeLimit: number | null;
+  categories: CategoryId[];
+  arrondissements: number[] | null;
+  hoursComputed: number;
+  stepMinutes: StepMinutes;
+  forecastDays: number;
+  scoreModel: ScoreModel;
+  fullSunIrradiance?: number; // irradiance model only
+  sunWindowThreshold: number;
+  weatherSource: string;
+  orientationMethod: string;
+  streetOrientedCafes: number;
+  terraceCafes: number;
+  openingHoursKnown: number;
+  shadowMethod: string;
+  cacheStrategy: string;
+  goldenHour: boolean;
+  voxCityUsage: {
+    voxCityCalculations: number;
+    buildingCalculations: number;
+    heuristicFallbacks: number;
+    precisionCoverage: string; // e.g. "42.0%"
+  };
+};
+
+type SunScoreEvent =
+  | { type: 'header'; hours: string[]; conditions: StepConditions[]; days?: ForecastDay[] }
+  | { type: 'cafes'; cafes: CafeWithScores[] }
+  | { type: 'done'; updatedAt: string; areas: AreaSunSummary[]; meta: SunScoreMeta }
+  | { type: 'error'; error: string; message: string };
+
 async function fetchParisWeatherHourly(startTime: Date, hours: number): Promise<WeatherHourData[]> {
   const lat = 48.8566;
   const lon = 2.3522;
   const hourBucket = alignToHour(startTime);
   
-  // Check cache first with hour-aligned key
-  const cacheKey = buildWeatherKey(lat, lon, hourBucket);
+  // Check cache first with hour-aligned key (fresh fetches return at least 12 hours)
+  const cacheKey = buildWeatherKey(lat, lon, hourBucket, Math.max(hours, 12));
   const { data: cached, isStale, shouldRefresh } = await cache.get<WeatherHourData[]>(cacheKey);
   
   // Determine TTL based on golden hour status
@@ -78,7 +241,7 @@ async function fetchFreshWeatherData(startTime: Date, hours: number, cacheKey: s
   const endDate = new Date(startTime.getTime() + hours * 60 * 60 * 1000);
   const endISO = endDate.toISOString().split('T')[0];
   
-  const url = `https://api.open-meteo.com/v1/forecast?latitude=48.8566&longitude=2.3522&hourly=cloudcover,direct_radiation&timezone=Europe%2FParis&start_date=${startISO}&end_date=${endISO}`;
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=48.8566&longitude=2.3522&hourly=cloudcover,direct_radiation,direct_normal_irradiance,diffuse_radiation,temperature_2m,relative_humidity_2m,wind_speed_10m&wind_speed_unit=ms&timezone=Europe%2FParis&start_date=${startISO}&end_date=${endISO}`;
   
   const res = await fetch(url);
   const data = await res.json();
@@ -86,6 +249,11 @@ async function fetchFreshWeatherData(startTime: Date, hours: number, cacheKey: s
   const hourlyTimes = data.hourly?.time ?? [];
   const cloudCover = data.hourly?.cloudcover ?? [];
   const directRadiation = data.hourly?.direct_radiation ?? [];
+  const directNormalIrradiance = data.hourly?.direct_normal_irradiance ?? [];
+  const diffuseRadiation = data.hourly?.diffuse_radiation ?? [];
+  const temperature = data.hourly?.temperature_2m ?? [];
+  const humidity = data.hourly?.relative_humidity_2m ?? [];
+  const windSpeed = data.hourly?.wind_speed_10m ?? [];
   
   // Find the starting hour index based on Paris time
   const startHourParis = new Date(startTime.toLocaleString("en-US", {timeZone: "Europe/Paris"})).getHours();
@@ -108,6 +276,11 @@ async function fetchFreshWeatherData(startTime: Date, hours: number, cacheKey: s
       time: parisTime,
       cloudCover: cloudCover[idx] ?? 0,
       directRadiation: directRadiation[idx] ?? 0,
+      directNormalIrradiance: directNormalIrradiance[idx] ?? 0,
+      diffuseRadiation: diffuseRadiation[idx] ?? 0,
+      temperature: temperature[idx] ?? 15,
+      windSpeed: windSpeed[idx] ?? 0,
+      humidity: humidity[idx] ?? 60,
     });
   }
   
@@ -120,11 +293,126 @@ async function fetchFreshWeatherData(startTime: Date, hours: number, cacheKey: s
   return result;
 }
 
-async function fetchCafes() {
+/**
+ * Expand hourly weather to finer steps, linearly interpolating every variable
+ * between hourly points (the last hour holds its value). Every step time is a
+ * UTC ISO string, whatever offset the weather fetch used.
+ */
+function interpolateWeatherSteps(hourly: WeatherHourData[], stepMinutes: StepMinutes): WeatherHourData[] {
+  if (stepMinutes === 60) return hourly.map(hour => ({ ...hour, time: new Date(hour.time).toISOString() }));
+  
+  const stepsPerHour = 60 / stepMinutes;
+  const result: WeatherHourData[] = [];
+  
+  for (let i = 0; i < hourly.length; i++) {
+    const current = hourly[i];
+    const next = hourly[i + 1] ?? current;
+    const startMs = new Date(current.time).getTime();
+    
+    for (let k = 0; k < stepsPerHour; k++) {
+      const t = k / stepsPerHour;
+      result.push({
+        time: new Date(startMs + k * stepMinutes * 60 * 1000).toISOString(),
+        cloudCover: current.cloudCover + (next.cloudCover - current.cloudCover) * t,
+        directRadiation: current.directRadiation + (next.directRadiation - current.directRadiation) * t,
+        directNormalIrradiance: current.directNormalIrradiance + (next.directNormalIrradiance - current.directNormalIrradiance) * t,
+        diffuseRadiation: current.diffuseRadiation + (next.diffuseRadiation - current.diffuseRadiation) * t,
+        temperature: current.temperature + (next.temperature - current.temperature) * t,
+        windSpeed: current.windSpeed + (next.windSpeed - current.windSpeed) * t,
+        humidity: current.humidity + (next.humidity - current.humidity) * t,
+      });
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Paris-local calendar date (YYYY-MM-DD) of a timestamp
+ */
+function parisDate(time: string | Date): string {
+  return new Date(time).toLocaleDateString("en-CA", { timeZone: "Europe/Paris" });
+}
+
+/**
+ * Group step indexes into Paris calendar days
+ */
+function groupByDay(times: string[]): ForecastDay[] {
+  const days: ForecastDay[] = [];
+  times.forEach((time, index) => {
+    const date = parisDate(time);
+    const last = days[days.length - 1];
+    if (last && last.date === date) {
+      last.end = index + 1;
+    } else {
+      days.push({ date, start: index, end: index + 1 });
+    }
+  });
+  return days;
+}
+
+/**
+ * Per-day sun summary for one café
+ */
+function summarizeDays(
+  days: ForecastDay[],
+  times: string[],
+  scores: number[],
+  stepMinutes: StepMinutes,
+  windowThreshold: number
+): DailySunSummary[] {
+  return days.map(({ date, start, end }) => {
+    let sunMinutes = 0;
+    let bestIndex = -1;
+    let firstSunnyIndex = -1;
+    
+    for (let i = start; i < end; i++) {
+      sunMinutes += scores[i] * stepMinutes;
+      if (scores[i] > 0 && (bestIndex === -1 || scores[i] > scores[bestIndex])) bestIndex = i;
+      if (firstSunnyIndex === -1 && scores[i] >= SUNNY_SCORE) firstSunnyIndex = i;
+    }
+    
+    const sunWindows = findSunWindows(times.slice(start, end), scores.slice(start, end), stepMinutes, windowThreshold);
+    
+    return {
+      date,
+      sunMinutes: Math.round(sunMinutes),
+      bestHour: bestIndex >= 0 ? times[bestIndex] : null,
+      bestScore: bestIndex >= 0 ? scores[bestIndex] : 0,
+      firstSunnyHour: firstSunnyIndex >= 0 ? times[firstSunnyIndex] : null,
+      sunWindows,
+      sunSummary: describeSunWindows(sunWindows),
+    };
+  });
+}
+
+/**
+ * Air temperature, wind and humidity for a step, plus how warm it feels in full
+ * sun and in shade
+ */
+function stepConditions(weather: WeatherHourData): StepConditions {
+  const { elevation } = sunAt(new Date(weather.time));
+  const diffuse = 0.5 * weather.diffuseRadiation;
+  const beam = elevation > 0 ? weather.directNormalIrradiance : 0;
+  const round = (x: number) => Math.round(x * 10) / 10;
+  
+  return {
+    temperature: round(weather.temperature),
+    windSpeed: round(weather.windSpeed),
+    humidity: Math.round(weather.humidity),
+    feelsLikeSun: round(apparentTemperature(weather.temperature, weather.windSpeed, weather.humidity, beam + diffuse)),
+    feelsLikeShade: round(apparentTemperature(weather.temperature, weather.windSpeed, weather.humidity, diffuse)),
+  };
+}
+
+async function fetchCafes(categories: CategoryId[], arrondissements: number[] | null, near: SunScoreRun['near'], bbox: string | null) {
   // Import the cafes logic directly instead of making HTTP calls
   try {
     const { GET: getCafes } = await import('../cafes/route');
-    const response = await getCafes();
+    const areaFilter = arrondissements ? `&arrondissement=${arrondissements.join(',')}` : '';
+    const nearFilter = near ? `&near=${near.point}&radius=${near.radius}` : '';
+    const boxFilter = bbox ? `&bbox=${bbox}` : '';
+    const response = await getCafes(new Request(`http://localhost/api/cafes?categories=${categories.join(',')}${areaFilter}${nearFilter}${boxFilter}`));
     if (!response) return [];
     const data = await response.json();
     return data.cafes ?? [];
@@ -136,6 +424,21 @@ async function fetchCafes() {
 }
 
 function computeCafeOrientation(cafe: any): number {
+  // Approved community corrections beat anything derived from OSM
+  if (typeof cafe.correction?.bearing === "number") {
+    return cafe.correction.bearing;
+  }
+  
+  // Mapped terrace polygons know which way they face
+  if (typeof cafe.terrace?.bearing === "number") {
+    return cafe.terrace.bearing;
+  }
+  
+  // Street-based orientation computed once at ingestion by /api/cafes
+  if (typeof cafe.orientation?.bearing === "number") {
+    return cafe.orientation.bearing;
+  }
+  
   // Phase 1.1: improved orientation detection
   
   // If café has outdoor seating info, try to determine orientation
@@ -202,6 +505,27 @@ function computeCafeOrientation(cafe: any): number {
   }
 }
 
+/**
+ * Orientation a café was assigned, and where it came from (explain mode)
+ */
+function describeCafeOrientation(cafe: any): CafeExplanation['orientation'] {
+  if (typeof cafe.correction?.bearing === "number") {
+    return { bearing: cafe.correction.bearing, method: 'community' };
+  }
+  if (typeof cafe.terrace?.bearing === "number") {
+    return { bearing: cafe.terrace.bearing, method: 'terrace' };
+  }
+  if (typeof cafe.orientation?.bearing === "number") {
+    return {
+      bearing: cafe.orientation.bearing,
+      method: 'street',
+      streetName: cafe.orientation.streetName,
+      streetDistance: cafe.orientation.streetDistance,
+    };
+  }
+  return { bearing: computeCafeOrientation(cafe), method: 'heuristic' };
+}
+
 function computeSunScore(
   sunAzimuth: number, // radians
   sunElevation: number, // radians  
@@ -272,7 +596,47 @@ function computeSunScore(
 }
 
 /**
- * Hybrid sun score calculation using VoxCity when available, heuristic as fallback
+ * Orientation, elevation, cloud and radiation factors shared by every method
+ */
+function commonScoreFactors(
+  sunAzimuth: number,
+  sunElevation: number,
+  cafeOrientation: number,
+  cloudCover: number,
+  directRadiation: number
+): Pick<ScoreFactors, 'facing' | 'elevation' | 'cloud' | 'radiation'> {
+  const cafeAzimuthRad = (cafeOrientation - 180) * Math.PI / 180;
+  const azimuthDiff = Math.abs(sunAzimuth - cafeAzimuthRad);
+  const normalizedDiff = Math.min(azimuthDiff, 2 * Math.PI - azimuthDiff);
+  
+  return {
+    facing: Math.max(0, Math.cos(normalizedDiff)),
+    elevation: clamp((deg(sunElevation) - 8) / 20, 0, 1),
+    cloud: 1 - (cloudCover / 100),
+    radiation: directRadiation > 100 ? 1.1 : 1.0,
+  };
+}
+
+/**
+ * Factors for a sun below 5°: surrounding buildings block it whatever the
+ * method, so both scoring paths report the same breakdown
+ */
+function lowSunFactors(
+  common: Pick<ScoreFactors, 'facing' | 'elevation' | 'cloud' | 'radiation'>,
+  hasTerrace: boolean
+): ScoreFactors {
+  return {
+    method: 'heuristic',
+    confidence: 1,
+    shadow: 0,
+    ...common,
+    ...(hasTerrace && { sunlitFraction: 0 }),
+  };
+}
+
+/**
+ * Hybrid sun score calculation using VoxCity or OSM building ray casting when
+ * available, heuristic as fallback
  */
 async function computeHybridSunScore(
   sunAzimuth: number,
@@ -283,35 +647,71 @@ async function computeHybridSunScore(
   cafeLat: number,
   cafeLon: number,
   hourTime: Date,
-  usePrecision: boolean = true
-): Promise<{ score: number; method: 'voxcity' | 'heuristic'; confidence: number }> {
+  precision: PrecisionMode = 'voxcity',
+  samplePoints?: [number, number][] // [lat, lon] across the terrace
+): Promise<{ score: number; method: PrecisionMode; confidence: number; factors: ScoreFactors }> {
   
   const sunElevationDeg = deg(sunElevation);
+  const common = commonScoreFactors(sunAzimuth, sunElevation, cafeOrientation, cloudCover, directRadiation);
   
   // Sun too low = no score regardless of method
   if (sunElevationDeg < 5) {
-    return { score: 0, method: 'heuristic', confidence: 1 };
+    return {
+      score: 0,
+      method: 'heuristic',
+      confidence: 1,
+      factors: lowSunFactors(common, !!samplePoints?.length),
+    };
   }
   
   let shadowFactor = 1;
-  let method: 'voxcity' | 'heuristic' = 'heuristic';
+  let method: PrecisionMode = 'heuristic';
   let confidence = 0.7; // default heuristic confidence
   
+  let sunlitFraction: number | undefined;
+  
+  // Terraces are sampled across their polygon, other cafés at their point
+  const points: [number, number][] = samplePoints && samplePoints.length > 0 ? samplePoints : [[cafeLat, cafeLon]];
+  
+  // Average the precise samples; the share of samples in sun is the sunlit part of the terrace
+  const combineSamples = (results: { shadowValue: number; confidence: number }[]) => {
+    shadowFactor = results.reduce((sum, r) => sum + r.shadowValue, 0) / results.length;
+    confidence = results.reduce((sum, r) => sum + r.confidence, 0) / results.length;
+    sunlitFraction = results.filter(r => r.shadowValue >= 0.5).length / results.length;
+  };
+  
    // Try VoxCity precision mode first (with reduced logging)
-   if (usePrecision) {
+   if (precision === 'voxcity') {
      try {
-       const voxResult = await getVoxShadowValue(cafeLat, cafeLon, hourTime);
+       const voxResults = await Promise.all(points.map(([lat, lon]) => getVoxShadowValue(lat, lon, hourTime)));
+       const precise = voxResults.filter(r => r.precision === 'voxcity');
  
-       if (voxResult.precision === 'voxcity') {
-         shadowFactor = voxResult.shadowValue; // 0-1, already normalized
+       if (precise.length > 0) {
+         combineSamples(precise); // 0-1, already normalized
          method = 'voxcity';
-         confidence = voxResult.confidence;
        }
      } catch (error) {
        // Silently fall back to heuristic
      }
    }
   
+  // Ray-cast against OSM building footprints
+  if (precision === 'buildings') {
+    try {
+      const buildingResults = await Promise.all(
+        points.map(([lat, lon]) => getBuildingShadowValue(lat, lon, sunAzimuth, sunElevation))
+      );
+      const precise = buildingResults.filter(r => r.precision === 'buildings');
+      
+      if (precise.length > 0) {
+        combineSamples(precise); // 0 = blocked, 1 = clear line to the sun
+        method = 'buildings';
+      }
+    } catch (error) {
+      // Silently fall back to heuristic
+    }
+  }
+  
   // Fallback to heuristic shadow calculation if VoxCity unavailable
   if (method === 'heuristic') {
     const heuristicScore = computeSunScore(
@@ -328,38 +728,81 @@ async function computeHybridSunScore(
     shadowFactor = heuristicScore > 0 ? 0.8 : 0.2; // simplified
   }
   
-  // Common factors regardless of method
-  const sunAzimuthDeg = deg(sunAzimuth);
-  const cafeAzimuthRad = (cafeOrientation - 180) * Math.PI / 180;
-  const azimuthDiff = Math.abs(sunAzimuth - cafeAzimuthRad);
-  const normalizedDiff = Math.min(azimuthDiff, 2 * Math.PI - azimuthDiff);
-  const facingScore = Math.max(0, Math.cos(normalizedDiff));
-  
-  const elevScore = clamp((sunElevationDeg - 8) / 20, 0, 1);
-  const cloudPenalty = 1 - (cloudCover / 100);
-  const radiationBonus = directRadiation > 100 ? 1.1 : 1.0;
-  
   // Combine all factors
   const finalScore = clamp(
-    shadowFactor * facingScore * elevScore * cloudPenalty * radiationBonus,
+    shadowFactor * common.facing * common.elevation * common.cloud * common.radiation,
     0,
     1
   );
   
-  return { score: finalScore, method, confidence };
+  return {
+    score: finalScore,
+    method,
+    confidence,
+    factors: {
+      method,
+      confidence,
+      shadow: shadowFactor,
+      ...common,
+      ...(sunlitFraction !== undefined && { sunlitFraction }),
+    },
+  };
+}
+
+/**
+ * Sunny share and average score per arrondissement at each step. Cafés
+ * without an arrondissement are left out.
+ */
+function summarizeAreas(cafes: CafeWithScores[], steps: number): AreaSunSummary[] {
+  const byArea = new Map<number, CafeWithScores[]>();
+  for (const cafe of cafes) {
+    if (!cafe.arrondissement) continue;
+    byArea.set(cafe.arrondissement, [...(byArea.get(cafe.arrondissement) ?? []), cafe]);
+  }
+
+  const r = (x: number) => Math.round(x * 100) / 100;
+  return Array.from(byArea.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([arrondissement, areaCafes]) => ({
+      arrondissement,
+      cafes: areaCafes.length,
+      sunnyShareByHour: Array.from({ length: steps }, (_, i) =>
+        r(areaCafes.filter(cafe => cafe.labelByHour[i] === "☀️").length / areaCafes.length)
+      ),
+      avgScoreByHour: Array.from({ length: steps }, (_, i) =>
+        r(areaCafes.reduce((sum, cafe) => sum + cafe.scoreByHour[i], 0) / areaCafes.length)
+      ),
+    }));
+}
+
+// Keep explain payloads compact
+function roundFactors(factors: ScoreFactors): ScoreFactors {
+  const r = (x: number) => Math.round(x * 1000) / 1000;
+  return {
+    ...factors,
+    confidence: r(factors.confidence),
+    shadow: r(factors.shadow),
+    facing: r(factors.facing),
+    elevation: r(factors.elevation),
+    cloud: r(factors.cloud),
+    radiation: r(factors.radiation),
+    ...(factors.beam !== undefined && { beam: r(factors.beam) }),
+    ...(factors.diffuse !== undefined && { diffuse: r(factors.diffuse) }),
+    ...(factors.sunlitFraction !== undefined && { sunlitFraction: r(factors.sunlitFraction) }),
+  };
 }
 
 // Cache sun geometry calculations separately (24h TTL)
-async function getCachedSunGeometry(hourTime: Date, lat: number, lon: number): Promise<{ azimuth: number; elevation: number }> {
-  const geoKey = buildSunGeometryKey(lat, lon, hourTime);
+async function getCachedSunGeometry(time: Date, lat: number, lon: number): Promise<{ azimuth: number; elevation: number }> {
+  const geoKey = buildSunGeometryKey(lat, lon, time);
   const { data: cached } = await cache.get<{ azimuth: number; elevation: number }>(geoKey);
   
   if (cached && typeof cached === 'object' && 'azimuth' in cached && 'elevation' in cached) {
     return cached;
   }
   
-  // Calculate fresh sun geometry
-  const { azimuth, elevation } = sunAt(hourTime, lat, lon);
+  // Calculate fresh sun geometry at the key's rounded location so entries are shareable
+  const { azimuth, elevation } = sunAt(time, Math.round(lat * 100) / 100, Math.round(lon * 100) / 100);
   const geometry = { azimuth, elevation };
   
   // Cache for 24 hours (astronomy changes predictably)
@@ -370,27 +813,82 @@ async function getCachedSunGeometry(hourTime: Date, lat: number, lon: number): P
   return geometry;
 }
 
-export async function GET(request: Request) {
+export async function GET(request: Request): Promise<Response | undefined> {
   const url = new URL(request.url);
+
+  // Same scores (and cache entry) as the JSON response, one Point feature per café
+  if (url.searchParams.get('format') === 'geojson') {
+    url.searchParams.delete('format');
+    const response = await GET(new Request(url));
+    if (!response?.ok) return response;
+    return new Response(JSON.stringify(sunScoresToGeoJSON(await response.json())), {
+      headers: {
+        "content-type": "application/geo+json",
+        "x-cache": response.headers.get("x-cache") ?? "BYPASS",
+        "x-golden-hour": response.headers.get("x-golden-hour") ?? "false",
+      },
+    });
+  }
+
   const hours = parseInt(url.searchParams.get('hours') ?? '8');
   const nowParam = url.searchParams.get('now');
   const precisionParam = url.searchParams.get('precision') ?? 'voxcity';
+  const precision: PrecisionMode = precisionParam === 'voxcity' || precisionParam === 'buildings'
+    ? precisionParam
+    : 'heuristic';
+  const scoreModel: ScoreModel = url.searchParams.get('model') === 'irradiance' ? 'irradiance' : 'factors';
   const limitParam = url.searchParams.get('limit'); // Add café limit parameter
+  const stepParam = parseInt(url.searchParams.get('step') ?? '60'); // "15m", "30m" or "60m"
+  const stepMinutes: StepMinutes = STEP_OPTIONS.find(option => option === stepParam) ?? 60;
+  
+  const daysParam = url.searchParams.get('days'); // multi-day mode
+  const thresholdParam = parseFloat(url.searchParams.get('threshold') ?? '');
+  const windowThreshold = Number.isFinite(thresholdParam) ? clamp(thresholdParam, 0.05, 1) : SUNNY_SCORE;
+  const explain = url.searchParams.get('explain') === '1'; // per-step factor breakdown
+  const stream = url.searchParams.get('format') === 'ndjson'; // send cafés as they are scored
+  const cafeId = url.searchParams.get('id');
   
   const now = nowParam ? new Date(nowParam) : new Date();
-  const maxHours = Math.min(hours, 12); // cap at 12 hours
-  const cafeLimit = limitParam ? Math.min(parseInt(limitParam), 1000) : 300; // Default 300 cafés
-  const usePrecision = precisionParam === 'voxcity';
+  const days = daysParam ? clamp(parseInt(daysParam) || 1, 1, MAX_FORECAST_DAYS) : 0;
+  const currentParisHour = new Date(now.toLocaleString("en-US", { timeZone: "Europe/Paris" })).getHours();
+  const maxHours = days > 0
+    ? days * 24 - currentParisHour // from now until midnight of the last day
+    : Math.min(hours, 12); // cap at 12 hours
+  const categories = parseCategories(url.searchParams.get('categories'));
+  const arrondissements = parseArrondissements(url.searchParams.get('arrondissement'));
+  const nearParam = url.searchParams.get('near');
+  const near = nearParam ? { point: nearParam, radius: url.searchParams.get('radius') ?? '1000' } : null;
+  const bbox = url.searchParams.get('bbox');
+  // Default 300 cafés city-wide; a bbox (map tile) scores every place inside it
+  const cafeLimit = limitParam ? Math.min(parseInt(limitParam), 1000) : bbox ? null : 300;
   const hourBucket = alignToHour(now);
-  
-  // Check main sun score cache first
-  const scoreKey = buildSunScoreKey(precisionParam, maxHours, hourBucket);
-  const { data: cachedScore, isStale, shouldRefresh } = await cache.get(scoreKey);
+  const run: SunScoreRun = { now, maxHours, precision, scoreModel, stepMinutes, days, cafeLimit, categories, arrondissements, near, bbox, windowThreshold, explain, cafeId };
   
   // Determine adaptive TTL
   const isGolden = isGoldenHour(now, 48.8566, 2.3522);
   const ttl = isGolden ? CACHE_TIMES.GOLDEN_HOUR : CACHE_TIMES.WEATHER;
   
+  // Explain and single-café requests are debugging views, and every location
+  // gives a different near set: never cached
+  if (explain || cafeId || near) {
+    return stream
+      ? streamSunScores(run, null, ttl, isGolden, null)
+      : await computeFreshSunScores(run, null, ttl, isGolden, false);
+  }
+  
+  // Check main sun score cache first
+  // A box is scored in full or sampled to `limit`, so both go in its key
+  const boxKey = bbox ? `${bbox}@${cafeLimit ?? 'all'}` : '';
+  const scoreKey = buildSunScoreKey(precision, maxHours, hourBucket, stepMinutes, days, windowThreshold, scoreModel, categories.join(','), arrondissements?.join(',') ?? '', boxKey);
+  const { data: cachedScore, isStale, shouldRefresh } = await cache.get(scoreKey);
+  
+  // Streams replay usable cached scores, or compute and cache them like the one-shot response
+  if (stream) {
+    if (cachedScore && isStale && shouldRefresh) refreshSunScoresInBackground(run, scoreKey, ttl);
+    const usable = cachedScore && (!isStale || shouldRefresh) ? cachedScore : null;
+    return streamSunScores(run, scoreKey, ttl, isGolden, usable);
+  }
+  
   // Return fresh cached scores
   if (cachedScore && !isStale) {
     return new Response(JSON.stringify(cachedScore), {
@@ -406,7 +904,7 @@ export async function GET(request: Request) {
   // Return stale scores while refreshing in background
   if (cachedScore && isStale && shouldRefresh) {
     // Background refresh
-    refreshSunScoresInBackground(now, maxHours, usePrecision, scoreKey, ttl);
+    refreshSunScoresInBackground(run, scoreKey, ttl);
     
     return new Response(JSON.stringify(cachedScore), {
       headers: { 
@@ -419,144 +917,321 @@ export async function GET(request: Request) {
   }
   
   // Compute fresh sun scores
-  return await computeFreshSunScores(now, maxHours, usePrecision, scoreKey, ttl, isGolden, false, cafeLimit);
+  return await computeFreshSunScores(run, scoreKey, ttl, isGolden, false);
 }
 
-async function refreshSunScoresInBackground(now: Date, maxHours: number, usePrecision: boolean, scoreKey: string, ttl: number, cafeLimit: number = 300) {
+async function refreshSunScoresInBackground(run: SunScoreRun, scoreKey: string, ttl: number) {
   try {
     console.log('🔄 Background sun score refresh started');
-    await computeFreshSunScores(now, maxHours, usePrecision, scoreKey, ttl, false, true, cafeLimit);
+    await computeFreshSunScores(run, scoreKey, ttl, false, true);
     console.log('✅ Background sun score refresh completed');
   } catch (error) {
     console.error('❌ Background sun score refresh failed:', error);
   }
 }
 
-async function computeFreshSunScores(
-  now: Date, 
-  maxHours: number, 
-  usePrecision: boolean, 
-  scoreKey: string, 
-  ttl: number,
-  isGolden: boolean = false,
-  isBackgroundRefresh: boolean = false,
-  cafeLimit: number = 300
+/**
+ * Score every café for a run. `emit` receives the header as soon as the
+ * weather is in, then each batch of cafés, then the areas and meta.
+ */
+async function scoreSunScores(
+  run: SunScoreRun,
+  isGolden: boolean,
+  emit?: (event: SunScoreEvent) => void
 ) {
-  try {
-    // Fetch weather and cafes in parallel (using smart caching)
-    const [weatherData, cafes] = await Promise.all([
-      fetchParisWeatherHourly(now, maxHours),
-      fetchCafes()
-    ]);
-    
-    if (weatherData.length === 0) {
-      throw new Error('No weather data available');
-    }
-    
-    const hourlyISO = weatherData.map((w: any) => w.time);
-    const cafesWithScores: CafeWithScores[] = [];
-    let voxCityUsageCount = 0;
-    let heuristicUsageCount = 0;
-    
-    // Limit cafés for performance (take best distributed sample)
-    const limitedCafes = cafes.length > cafeLimit 
+  const { now, maxHours, precision, scoreModel, stepMinutes, days, cafeLimit, categories, arrondissements, near, bbox, windowThreshold, explain, cafeId } = run;
+  
+  // Fetch weather and cafes in parallel (using smart caching)
+  const [hourlyWeather, cafes] = await Promise.all([
+    fetchParisWeatherHourly(now, maxHours),
+    fetchCafes(categories, arrondissements, near, bbox)
+  ]);
+  
+  if (hourlyWeather.length === 0) {
+    throw new Error('No weather data available');
+  }
+  
+  // Sun geometry is computed per step, weather is interpolated between hours
+  const allSteps = interpolateWeatherSteps(hourlyWeather, stepMinutes);
+  
+  // Multi-day mode skips night steps entirely
+  const weatherData = days > 0
+    ? allSteps.filter(step => isDaylight(new Date(step.time)))
+    : allSteps;
+  
+  const hourlyISO = weatherData.map((w: any) => w.time);
+  const forecastDays = days > 0 ? groupByDay(hourlyISO) : [];
+  const conditions = weatherData.map(stepConditions);
+  emit?.({ type: 'header', hours: hourlyISO, conditions, ...(days > 0 && { days: forecastDays }) });
+  
+  const cafesWithScores: CafeWithScores[] = [];
+  let voxCityUsageCount = 0;
+  let buildingsUsageCount = 0;
+  let heuristicUsageCount = 0;
+  
+  // Limit cafés for performance (take best distributed sample)
+  const limitedCafes = cafeId
+    ? cafes.filter((cafe: any) => cafe.id === cafeId)
+    : cafeLimit !== null && cafes.length > cafeLimit 
       ? cafes.filter((_: any, index: number) => index % Math.ceil(cafes.length / cafeLimit) === 0).slice(0, cafeLimit)
       : cafes;
+  
+  const scoreCafe = async (cafe: any): Promise<CafeWithScores> => {
+    const cafeOrientation = computeCafeOrientation(cafe);
+    const scoreByHour: number[] = [];
+    const labelByHour: string[] = [];
+    const factorsByHour: ScoreFactors[] = [];
+    const irradianceByHour: number[] = [];
+    const comfortByHour: number[] = [];
+    const feelsLikeByHour: number[] = [];
+    const terraceSunByHour: (number | null)[] = [];
     
-    for (const cafe of limitedCafes) {
-      const cafeOrientation = computeCafeOrientation(cafe);
-      const scoreByHour: number[] = [];
-      const labelByHour: string[] = [];
+    // Evaluate at the mapped terrace when there is one, not the shop's coordinate
+    const terrace = cafe.terrace;
+    const spotLat = terrace ? terrace.lat : cafe.lat;
+    const spotLon = terrace ? terrace.lon : cafe.lon;
+    
+    for (let i = 0; i < weatherData.length; i++) {
+      const weather = weatherData[i];
+      const hourTime = new Date(weather.time);
       
-      for (let i = 0; i < weatherData.length; i++) {
-        const weather = weatherData[i];
-        const hourTime = new Date(weather.time);
-        
-        // Use cached sun geometry (24h cache)
-        const { azimuth, elevation } = await getCachedSunGeometry(hourTime, cafe.lat, cafe.lon);
-        
-        // Early return for very low sun (skip expensive calculations)
-        const elevationDeg = deg(elevation);
-        if (elevationDeg < 5) {
-          const afterSunset = isAfterSunset(hourTime, cafe.lat, cafe.lon);
-          scoreByHour.push(0);
-          labelByHour.push(labelFromScore(0, afterSunset));
-          heuristicUsageCount++;
-          continue;
-        }
-        
+      // Use cached sun geometry (24h cache)
+      const { azimuth, elevation } = await getCachedSunGeometry(hourTime, cafe.lat, cafe.lon);
+      const afterSunset = isAfterSunset(hourTime, cafe.lat, cafe.lon);
+      
+      let score: number;
+      let factors: ScoreFactors;
+      
+      // Early return for very low sun (skip expensive calculations)
+      const elevationDeg = deg(elevation);
+      if (elevationDeg < 5) {
+        score = 0;
+        factors = lowSunFactors(
+          commonScoreFactors(azimuth, elevation, cafeOrientation, weather.cloudCover, weather.directRadiation),
+          !!terrace
+        );
+        heuristicUsageCount++;
+      } else {
         // Use hybrid scoring (VoxCity + heuristic fallback)
-        const { score, method, confidence } = await computeHybridSunScore(
+        const result = await computeHybridSunScore(
           azimuth,
           elevation,
           cafeOrientation,
           weather.cloudCover,
           weather.directRadiation,
-          cafe.lat,
-          cafe.lon,
+          spotLat,
+          spotLon,
           hourTime,
-          usePrecision
+          precision,
+          terrace?.samples
         );
+        score = result.score;
+        factors = result.factors;
         
         // Track method usage for metadata
-        if (method === 'voxcity') {
+        if (result.method === 'voxcity') {
           voxCityUsageCount++;
+        } else if (result.method === 'buildings') {
+          buildingsUsageCount++;
         } else {
           heuristicUsageCount++;
         }
-        
-        const afterSunset = isAfterSunset(hourTime, cafe.lat, cafe.lon);
-        
+      }
+      
+      if (scoreModel === 'irradiance') {
+        // Same shadow factor, but DNI/diffuse replace the cloud and radiation factors
+        const irradiance = terraceIrradiance(
+          azimuth,
+          elevation,
+          cafeOrientation,
+          weather.directNormalIrradiance,
+          weather.diffuseRadiation,
+          factors.shadow
+        );
+        irradianceByHour.push(irradiance.total);
+        score = clamp(irradiance.total / FULL_SUN_IRRADIANCE, 0, 1);
+        scoreByHour.push(score);
+        labelByHour.push(labelFromIrradiance(irradiance.total, afterSunset));
+        factors = { ...factors, beam: irradiance.beam, diffuse: irradiance.diffuse };
+      } else {
         scoreByHour.push(score);
         labelByHour.push(labelFromScore(score, afterSunset));
       }
       
-      cafesWithScores.push({
-        id: cafe.id,
-        name: cafe.name,
-        lat: cafe.lat,
-        lon: cafe.lon,
-        labelByHour,
-        scoreByHour,
-      });
+      // Sun exposure drives the solar load on someone seated outside
+      const shortwave = scoreModel === 'irradiance'
+        ? irradianceByHour[irradianceByHour.length - 1]
+        : score * FULL_SUN_IRRADIANCE + 0.5 * weather.diffuseRadiation;
+      const feelsLike = apparentTemperature(weather.temperature, weather.windSpeed, weather.humidity, shortwave);
+      feelsLikeByHour.push(Math.round(feelsLike * 10) / 10);
+      comfortByHour.push(Math.round(comfortFromApparent(feelsLike) * 100) / 100);
+      
+      if (terrace) terraceSunByHour.push(factors.sunlitFraction ?? null);
+      if (explain) factorsByHour.push(factors);
     }
     
-    const response = {
-      updatedAt: new Date().toISOString(),
-      hours: hourlyISO,
-      cafes: cafesWithScores,
-      meta: {
-        totalCafes: cafesWithScores.length,
-        totalAvailable: cafes.length,
-        cafeLimit: cafeLimit,
-        hoursComputed: maxHours,
-        weatherSource: "open-meteo",
-        orientationMethod: "street-based-v1.1",
-        shadowMethod: usePrecision ? "voxcity+heuristic" : "heuristic-only",
-        cacheStrategy: "smart-split-swr",
-        goldenHour: isGolden,
-        voxCityUsage: {
-          voxCityCalculations: voxCityUsageCount,
-          heuristicFallbacks: heuristicUsageCount,
-          precisionCoverage: voxCityUsageCount > 0 ? 
-            (voxCityUsageCount / (voxCityUsageCount + heuristicUsageCount) * 100).toFixed(1) + '%' : 
-            '0%'
+    const sunWindows = findSunWindows(hourlyISO, scoreByHour, stepMinutes, windowThreshold);
+    const openingHours = parseOpeningHours(cafe.tags?.opening_hours);
+    
+    return {
+      id: cafe.id,
+      name: cafe.name,
+      category: cafe.category ?? null,
+      lat: cafe.lat,
+      lon: cafe.lon,
+      ...(cafe.arrondissement && { arrondissement: cafe.arrondissement }),
+      ...(cafe.quartier && { quartier: cafe.quartier }),
+      labelByHour,
+      scoreByHour,
+      ...(scoreModel === 'irradiance' && { irradianceByHour }),
+      ...(terrace && {
+        terrace: { id: terrace.id, area: terrace.area, bearing: terrace.bearing },
+        terraceSunByHour: terraceSunByHour.map(f => (f === null ? null : Math.round(f * 100) / 100)),
+      }),
+      ...(openingHours && { openByHour: hourlyISO.map((time: string) => isOpenAt(openingHours, new Date(time))) }),
+      comfortByHour,
+      feelsLikeByHour,
+      sunWindows,
+      ...(days > 0
+        ? { dailySummaries: summarizeDays(forecastDays, hourlyISO, scoreByHour, stepMinutes, windowThreshold) }
+        : { sunSummary: describeSunWindows(sunWindows) }),
+      ...(explain && {
+        explain: {
+          orientation: describeCafeOrientation(cafe),
+          factorsByHour: factorsByHour.map(roundFactors),
+        },
+      }),
+    };
+  };
+  
+  // Cafés within a batch are scored concurrently; each batch is streamed once done
+  for (let start = 0; start < limitedCafes.length; start += SCORE_BATCH_SIZE) {
+    const batch = await Promise.all(limitedCafes.slice(start, start + SCORE_BATCH_SIZE).map(scoreCafe));
+    cafesWithScores.push(...batch);
+    emit?.({ type: 'cafes', cafes: batch });
+  }
+  
+  const meta: SunScoreMeta = {
+    totalCafes: cafesWithScores.length,
+    totalAvailable: cafes.length,
+    cafeLimit: cafeLimit,
+    categories,
+    arrondissements,
+    hoursComputed: maxHours,
+    stepMinutes,
+    forecastDays: days,
+    scoreModel,
+    ...(scoreModel === 'irradiance' && { fullSunIrradiance: FULL_SUN_IRRADIANCE }),
+    sunWindowThreshold: windowThreshold,
+    weatherSource: "open-meteo",
+    orientationMethod: "community+terrace+nearest-street+heuristic",
+    streetOrientedCafes: limitedCafes.filter((cafe: any) => cafe.orientation?.method === 'street').length,
+    terraceCafes: limitedCafes.filter((cafe: any) => cafe.terrace).length,
+    openingHoursKnown: cafesWithScores.filter(cafe => cafe.openByHour).length,
+    shadowMethod: precision === 'heuristic' ? "heuristic-only" : `${precision}+heuristic`,
+    cacheStrategy: "smart-split-swr",
+    goldenHour: isGolden,
+    voxCityUsage: {
+      voxCityCalculations: voxCityUsageCount,
+      buildingCalculations: buildingsUsageCount,
+      heuristicFallbacks: heuristicUsageCount,
+      precisionCoverage: voxCityUsageCount + buildingsUsageCount > 0 ? 
+        ((voxCityUsageCount + buildingsUsageCount) / (voxCityUsageCount + buildingsUsageCount + heuristicUsageCount) * 100).toFixed(1) + '%' : 
+        '0%'
+    }
+  };
+
+  const response = {
+    updatedAt: new Date().toISOString(),
+    hours: hourlyISO,
+    conditions,
+    ...(days > 0 && { days: forecastDays }),
+    cafes: cafesWithScores,
+    areas: summarizeAreas(cafesWithScores, hourlyISO.length),
+    meta,
+  };
+  
+  emit?.({ type: 'done', updatedAt: response.updatedAt, areas: response.areas, meta: response.meta });
+  return response;
+}
+
+/**
+ * Send a cached response as stream events
+ */
+function replaySunScores(cached: any, emit: (event: SunScoreEvent) => void) {
+  emit({ type: 'header', hours: cached.hours, conditions: cached.conditions, ...(cached.days && { days: cached.days }) });
+  for (let start = 0; start < cached.cafes.length; start += SCORE_BATCH_SIZE) {
+    emit({ type: 'cafes', cafes: cached.cafes.slice(start, start + SCORE_BATCH_SIZE) });
+  }
+  emit({ type: 'done', updatedAt: cached.updatedAt, areas: cached.areas ?? [], meta: cached.meta });
+}
+
+/**
+ * NDJSON response: one SunScoreEvent per line
+ */
+function streamSunScores(
+  run: SunScoreRun,
+  scoreKey: string | null, // null = don't cache the result
+  ttl: number,
+  isGolden: boolean,
+  cached: any | null
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const emit = (event: SunScoreEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      try {
+        if (cached) {
+          replaySunScores(cached, emit);
+        } else {
+          const response = await scoreSunScores(run, isGolden, emit);
+          if (scoreKey) await cacheSunScores(scoreKey, response, ttl);
         }
+      } catch (err: any) {
+        console.error("Sunscore stream error:", err);
+        emit({ type: 'error', error: "sunscore_failed", message: err.message });
       }
-    };
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "content-type": "application/x-ndjson",
+      "x-cache": cached ? "HIT" : scoreKey ? "MISS" : "BYPASS",
+      "x-golden-hour": isGolden.toString(),
+    },
+  });
+}
+
+async function cacheSunScores(scoreKey: string, response: unknown, ttl: number) {
+  await cache.set(scoreKey, response, {
+    ttl,
+    swr: CACHE_TIMES.WEATHER_SWR
+  });
+}
+
+async function computeFreshSunScores(
+  run: SunScoreRun,
+  scoreKey: string | null, // null = don't cache the response
+  ttl: number,
+  isGolden: boolean = false,
+  isBackgroundRefresh: boolean = false
+) {
+  try {
+    const response = await scoreSunScores(run, isGolden);
     
     // Cache the response with adaptive TTL
-    await cache.set(scoreKey, response, {
-      ttl,
-      swr: CACHE_TIMES.WEATHER_SWR
-    });
+    if (scoreKey) {
+      await cacheSunScores(scoreKey, response, ttl);
+    }
     
     if (isBackgroundRefresh) return; // Don't return response for background refresh
     
     return new Response(JSON.stringify(response), {
       headers: { 
         "content-type": "application/json",
-        "x-cache": "MISS",
+        "x-cache": scoreKey ? "MISS" : "BYPASS",
         "x-cache-status": "fresh-computation",
         "x-golden-hour": isGolden.toString(),
         "x-ttl": ttl.toString()
@@ -0,0 +1,71 @@
+import { GET as getSunScores } from "@/app/api/sunscore/route";
+import { encodePointTile, TILE_BUFFER, tileBounds } from "@/app/lib/mvt";
+import { sunScoreTilePoint } from "@/app/lib/sun-features";
+
+export const runtime = "nodejs";
+
+const MAX_ZOOM = 22;
+const LAYER_NAME = "cafes";
+
+// Low-zoom tiles cover most of Paris: score an even sample, like /api/sunscore
+const MAX_TILE_CAFES = 500;
+
+// Sunscore parameters a tile may narrow; format, explain, id, near and limit
+// don't apply
+const FORWARDED_PARAMS = ['hours', 'now', 'precision', 'model', 'step', 'days', 'threshold', 'categories', 'arrondissement'];
+
+type TileParams = { z: string; x: string; y: string };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const tileCoordinate = (value: string) => (/^\d+$/.test(value) ? parseInt(value) : NaN);
+
+/**
+ * Sun scores as a Mapbox vector tile, `/api/tiles/{z}/{x}/{y}.mvt`. One
+ * `cafes` point layer with `score_<i>`, `label_<i>` and `open_<i>` per step
+ * for up to MAX_TILE_CAFES places in the tile; takes the `/api/sunscore`
+ * query parameters and passes its errors through.
+ */
+export async function GET(request: Request, { params }: { params: TileParams }) {
+  const z = tileCoordinate(params.z);
+  const x = tileCoordinate(params.x);
+  const y = tileCoordinate(params.y.replace(/\.mvt$/, ""));
+  if (!(z <= MAX_ZOOM) || !(x < 2 ** z) || !(y < 2 ** z)) {
+    return json({ error: "invalid_tile", message: `expected /api/tiles/{z}/{x}/{y}.mvt with z up to ${MAX_ZOOM}` }, 400);
+  }
+
+  const url = new URL(request.url);
+  const scoreUrl = new URL("http://localhost/api/sunscore");
+  for (const name of FORWARDED_PARAMS) {
+    const value = url.searchParams.get(name);
+    if (value !== null) scoreUrl.searchParams.set(name, value);
+  }
+  const [west, south, east, north] = tileBounds(z, x, y, TILE_BUFFER);
+  scoreUrl.searchParams.set("bbox", [south, west, north, east].map(value => value.toFixed(6)).join(","));
+  scoreUrl.searchParams.set("limit", String(MAX_TILE_CAFES));
+
+  const scoreResponse = await getSunScores(new Request(scoreUrl));
+  if (!scoreResponse) return json({ error: "scores_unavailable" }, 503);
+  if (!scoreResponse.ok) {
+    // Sunscore's own status and error, rather than a blanket outage
+    return new Response(await scoreResponse.text(), {
+      status: scoreResponse.status,
+      headers: { "content-type": scoreResponse.headers.get("content-type") ?? "application/json" },
+    });
+  }
+  const scores = await scoreResponse.json();
+
+  const tile = encodePointTile(LAYER_NAME, (scores.cafes ?? []).map(sunScoreTilePoint), z, x, y);
+  return new Response(tile, {
+    headers: {
+      "content-type": "application/vnd.mapbox-vector-tile",
+      "cache-control": "public, max-age=300",
+      "x-cache": scoreResponse.headers.get("x-cache") ?? "BYPASS",
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { notFound } from "next/navigation";
+import { CafeDetail } from "@/app/components/cafe-detail";
+import { cafeIdFromParams } from "@/app/lib/cafe-id";
+import { DEFAULT_CATEGORIES, parseCategory } from "@/app/lib/categories";
+import type { CafeIdParams } from "@/app/lib/cafe-id";
+
+type CafePageProps = {
+  params: CafeIdParams;
+  searchParams: { category?: string }; // the category to look the café up in
+};
+
+export default function CafePage({ params, searchParams }: CafePageProps) {
+  const cafeId = cafeIdFromParams(params);
+  if (!cafeId) notFound();
+
+  // Links without a category (older or hand-written ones) look among the cafés
+  const category = parseCategory(searchParams.category) ?? DEFAULT_CATEGORIES[0];
+
+  return (
+    <main className="cafe-page">
+      <CafeDetail cafeId={cafeId} category={category} />
+    </main>
+  );
+}
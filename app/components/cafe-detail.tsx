@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type SunWindow = {
+  start: string;
+  end: string;
+  peakScore: number;
+  peakAt: string;
+  avgScore: number;
+};
+
+type SunProfile = {
+  hours: string[];
+  labelByHour: string[];
+  scoreByHour: number[];
+  comfortByHour: number[];
+  feelsLikeByHour: number[];
+  openByHour?: boolean[];
+  terraceSunByHour?: (number | null)[];
+  sunWindows: SunWindow[];
+  summary: { sunMinutes: number; bestHour: string | null; bestScore: number; sunSummary: string } | null;
+  orientation?: { bearing: number; method: "community" | "terrace" | "street" | "heuristic"; streetName?: string | null; streetDistance?: number };
+};
+
+type CafeDetailData = {
+  cafe: {
+    id: string;
+    name: string | null;
+    lat: number;
+    lon: number;
+    tags: Record<string, any>;
+    arrondissement?: number;
+    quartier?: { id: number; name: string };
+    terrace?: { area: number; bearing: number };
+  };
+  date: string;
+  stepMinutes: number;
+  sunrise: string;
+  sunset: string;
+  profile: SunProfile | null;
+};
+
+type CafeDetailProps = {
+  cafeId: string; // "node/123"
+  category: string; // the café's category, to look it up in
+};
+
+const PROFILE_DAYS = 7;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/Paris" });
+
+// Paris-local dates for the day picker, today first
+function upcomingDates(count: number): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.now() + i * 24 * 60 * 60 * 1000).toLocaleDateString("en-CA", { timeZone: "Europe/Paris" })
+  );
+}
+
+const formatDay = (date: string, index: number) => {
+  if (index === 0) return "Today";
+  if (index === 1) return "Tomorrow";
+  // Noon UTC keeps the weekday stable across time zones
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "short", day: "numeric" });
+};
+
+const ORIENTATION_SOURCES = {
+  community: "community correction",
+  terrace: "mapped terrace",
+  street: "nearest street",
+  heuristic: "default",
+};
+
+/**
+ * A single café with its sunrise-to-sunset profile, linkable as /cafe/node/123
+ */
+export function CafeDetail({ cafeId, category }: CafeDetailProps) {
+  const [dates] = useState(() => upcomingDates(PROFILE_DAYS));
+  const [date, setDate] = useState(dates[0]);
+  const [data, setData] = useState<CafeDetailData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function loadCafe() {
+      try {
+        setError(null);
+        const res = await fetch(`/api/cafes/${cafeId}?date=${date}&category=${category}`);
+        const json = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error === "cafe_not_found" ? "This café could not be found." : "Failed to load this café.");
+          return;
+        }
+        setData(json);
+      } catch (err) {
+        console.error("Failed to load café:", err);
+        if (!cancelled) setError("Failed to load this café.");
+      }
+    }
+
+    loadCafe();
+    return () => { cancelled = true; };
+  }, [cafeId, category, date]);
+
+  if (error) {
+    return (
+      <div className="cafe-detail">
+        <Link href="/" className="cafe-detail-back">← All cafés</Link>
+        <div className="empty-state">{error}</div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="cafe-detail loading">
+        <div className="loading-message">Loading the sun profile...</div>
+      </div>
+    );
+  }
+
+  const { cafe, profile } = data;
+  const tags = cafe.tags || {};
+  const address = [tags["addr:housenumber"], tags["addr:street"], tags["addr:postcode"]].filter(Boolean).join(" ");
+
+  return (
+    <div className="cafe-detail">
+      <Link href="/" className="cafe-detail-back">← All cafés</Link>
+
+      <div className="cafe-detail-header">
+        <h2>{cafe.name || "Unnamed Café"}</h2>
+        <div className="cafe-address-preview">
+          📍 {address || "Address not available"}
+          {cafe.quartier && <> · {cafe.quartier.name}</>}
+        </div>
+        {tags.opening_hours && <div className="cafe-hours">🕒 {tags.opening_hours}</div>}
+      </div>
+
+      <div className="day-picker">
+        {dates.map((day, index) => (
+          <button
+            key={day}
+            className={`day-pill ${date === day ? "active" : ""}`}
+            onClick={() => setDate(day)}
+          >
+            {formatDay(day, index)}
+          </button>
+        ))}
+      </div>
+
+      <div className="cafe-day-summary">
+        🌅 {formatTime(data.sunrise)} · 🌇 {formatTime(data.sunset)}
+        {profile?.summary && <> · {profile.summary.sunSummary}</>}
+      </div>
+
+      {profile?.orientation && (
+        <div className="cafe-terrace">
+          🧭 Terrace faces {profile.orientation.bearing}° ({ORIENTATION_SOURCES[profile.orientation.method]}
+          {profile.orientation.streetName && <>, {profile.orientation.streetName}</>})
+          {cafe.terrace && <> · {cafe.terrace.area} m²</>}
+        </div>
+      )}
+
+      {profile ? (
+        <>
+          {profile.sunWindows.length > 0 && (
+            <div className="sun-windows">
+              {profile.sunWindows.map(window => (
+                <span key={window.start} className="sun-window-badge">
+                  {formatTime(window.start)}–{formatTime(window.end)}
+                  <span className="sun-window-score">avg {(window.avgScore * 100).toFixed(0)}%</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="sun-profile">
+            {profile.hours.map((time, i) => (
+              <div
+                key={time}
+                className={`sun-profile-step ${profile.openByHour?.[i] === false ? "closed" : ""}`}
+                title={`${formatTime(time)} · ${profile.labelByHour[i]} ${(profile.scoreByHour[i] * 100).toFixed(0)}% · feels ${Math.round(profile.feelsLikeByHour[i])}°`}
+              >
+                <div className="sun-profile-bar" style={{ height: `${Math.max(profile.scoreByHour[i] * 100, 2)}%` }} />
+                {new Date(time).getMinutes() === 0 && (
+                  <span className="sun-profile-time">{formatTime(time).slice(0, 2)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="empty-state">No weather forecast for this date yet.</div>
+      )}
+    </div>
+  );
+}
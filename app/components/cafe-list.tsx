@@ -1,16 +1,70 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { calculateDistance, formatDistance } from "@/app/lib/utils";
 
+type SunWindow = {
+  start: string;
+  end: string;
+  peakScore: number;
+  peakAt: string;
+  avgScore: number;
+};
+
+type ScoreFactors = {
+  method: "voxcity" | "buildings" | "heuristic";
+  confidence: number;
+  shadow: number;
+  facing: number;
+  elevation: number;
+  cloud: number;
+  radiation: number;
+};
+
+type CafeExplanation = {
+  orientation: { bearing: number; method: "community" | "terrace" | "street" | "heuristic"; streetName?: string | null; streetDistance?: number };
+  factorsByHour: ScoreFactors[];
+};
+
+type CategoryId = "cafe" | "brasserie" | "bar" | "pub" | "restaurant";
+
+type SunObservation = "sunny" | "partial" | "shade";
+
+// Arrondissements present in the loaded cafés, with their quartiers
+type AreaOption = {
+  arrondissement: number;
+  quartiers: { id: number; name: string }[];
+};
+
 type Cafe = {
   id: string;
   name: string | null;
   lat: number;
   lon: number;
+  category?: CategoryId | null;
+  arrondissement?: number;
+  quartier?: { id: number; name: string };
   labelByHour?: string[];
   scoreByHour?: number[];
+  comfortByHour?: number[];
+  feelsLikeByHour?: number[];
+  openByHour?: boolean[];
+  terrace?: { id: string; area: number; bearing: number };
+  terraceSunByHour?: (number | null)[];
+  sunWindows?: SunWindow[];
+  sunSummary?: string;
   tags?: Record<string, any>;
+  correction?: { bearing?: number; outdoorSeating?: boolean; note?: string; correctedAt: string };
+  dailySummary?: {
+    date: string;
+    sunMinutes: number;
+    bestHour: string | null;
+    bestScore: number;
+    firstSunnyHour: string | null;
+    sunWindows: SunWindow[];
+    sunSummary: string;
+  };
 };
 
 type CafeListProps = {
@@ -18,18 +72,45 @@ type CafeListProps = {
   selectedHour: number;
   searchQuery: string;
   onSearchChange: (query: string) => void;
-  sortBy: "name" | "distance" | "score";
-  onSortChange: (sort: "name" | "distance" | "score") => void;
+  sortBy: "name" | "distance" | "score" | "comfort";
+  onSortChange: (sort: "name" | "distance" | "score" | "comfort") => void;
   onCafeSelect: (cafe: Cafe | null) => void;
   selectedCafe: Cafe | null;
   userLocation?: {lat: number, lon: number} | null;
   onShowOnMap?: (cafe: Cafe) => void;
   favorites: Set<string>;
   onToggleFavorite: (cafeId: string) => void;
+  scoreQuery: string; // sunscore params the displayed scores were loaded with
+  stepOffset: number; // index of selectedHour's first step in that response
+  categories: CategoryId[];
+  onCategoriesChange: (categories: CategoryId[]) => void;
+  areaOptions: AreaOption[];
+  arrondissement: number | null; // null = all of Paris
+  quartier: number | null;
+  onAreaChange: (arrondissement: number | null, quartier: number | null) => void;
 };
 
 const ITEMS_PER_PAGE = 10;
 
+const CATEGORY_CHIPS: { id: CategoryId; label: string }[] = [
+  { id: "cafe", label: "☕ Cafés" },
+  { id: "brasserie", label: "🥐 Brasseries" },
+  { id: "bar", label: "🍸 Bars" },
+  { id: "pub", label: "🍺 Pubs" },
+  { id: "restaurant", label: "🍽️ Restaurants" }
+];
+
+const SUN_REPORT_OPTIONS: { value: SunObservation; icon: string; label: string }[] = [
+  { value: "sunny", icon: "☀️", label: "Sunny" },
+  { value: "partial", icon: "⛅", label: "Partial" },
+  { value: "shade", icon: "☁️", label: "Shade" }
+];
+
+const formatArrondissement = (n: number) => `${n}${n === 1 ? "er" : "e"} arr.`;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Paris' });
+
 export function CafeList({
   cafes,
   selectedHour,
@@ -42,22 +123,34 @@ export function CafeList({
   userLocation,
   onShowOnMap,
   favorites,
-  onToggleFavorite
+  onToggleFavorite,
+  scoreQuery,
+  stepOffset,
+  categories,
+  onCategoriesChange,
+  areaOptions,
+  arrondissement,
+  quartier,
+  onAreaChange
 }: CafeListProps) {
   
   const [expandedCafes, setExpandedCafes] = useState<Set<string>>(new Set());
   const [displayCount, setDisplayCount] = useState(ITEMS_PER_PAGE);
   const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set());
+  const [explanations, setExplanations] = useState<Record<string, CafeExplanation | "loading" | "error">>({});
+  const [sunReports, setSunReports] = useState<Record<string, SunObservation | "sending" | "error">>({});
   
   const getScoreDisplay = (cafe: Cafe) => {
     const label = cafe.labelByHour?.[selectedHour] || "☁️";
     const score = cafe.scoreByHour?.[selectedHour];
-    return { label, score };
+    const feelsLike = cafe.feelsLikeByHour?.[selectedHour];
+    return { label, score, feelsLike };
   };
 
   const availableFilters = [
     { id: 'favorites', label: '❤️ Favorites', key: 'favorites' },
     { id: 'sunny', label: 'Sunny', key: 'sunny' },
+    { id: 'open_sunny', label: 'Open & Sunny', key: 'open_sunny' },
     { id: 'partial', label: 'Partial Sun', key: 'partial' },
     { id: 'outdoor_seating', label: 'Outdoor', key: 'outdoor_seating' },
     { id: 'wifi', label: 'WiFi', key: 'internet_access' },
@@ -67,6 +160,14 @@ export function CafeList({
     { id: 'accessible', label: 'Accessible', key: 'wheelchair' }
   ];
 
+  // At least one category stays selected
+  const toggleCategory = (categoryId: CategoryId) => {
+    const next = categories.includes(categoryId)
+      ? categories.filter(id => id !== categoryId)
+      : [...categories, categoryId];
+    if (next.length > 0) onCategoriesChange(next);
+  };
+
   const toggleFilter = (filterId: string) => {
     const newFilters = new Set(activeFilters);
     if (newFilters.has(filterId)) {
@@ -77,16 +178,22 @@ export function CafeList({
     setActiveFilters(newFilters);
   };
 
-  const formatOpeningHours = (hours: string) => {
+  // Raw opening_hours, prefixed with the evaluated status at the selected hour
+  const formatOpeningHours = (cafe: Cafe) => {
+    const hours: string | undefined = cafe.tags?.opening_hours;
     if (!hours) return null;
-    // Simplify common patterns
-    if (hours.includes("Mo-Su")) {
-      const timeMatch = hours.match(/(\d{2}:\d{2})-(\d{2}:\d{2})/);
-      if (timeMatch) {
-        return `Daily ${timeMatch[1]}-${timeMatch[2]}`;
-      }
-    }
-    return hours.length > 30 ? hours.substring(0, 30) + "..." : hours;
+    const open = cafe.openByHour?.[selectedHour];
+    const status = open === undefined ? "" : open ? "Open · " : "Closed at this hour · ";
+    return `${status}${hours.replace(/\s*;\s*/g, "; ")}`;
+  };
+
+  const formatDaySummary = (summary: NonNullable<Cafe["dailySummary"]>) => {
+    const hours = Math.floor(summary.sunMinutes / 60);
+    const minutes = summary.sunMinutes % 60;
+    const parts = [`☀️ ${hours > 0 ? `${hours}h${minutes.toString().padStart(2, '0')}` : `${minutes}min`} of sun`];
+    if (summary.bestHour) parts.push(`best at ${formatTime(summary.bestHour)}`);
+    if (summary.firstSunnyHour) parts.push(`sunny from ${formatTime(summary.firstSunnyHour)}`);
+    return parts.join(' · ');
   };
 
   const getAddress = (cafe: Cafe) => {
@@ -95,6 +202,7 @@ export function CafeList({
     if (tags["addr:housenumber"]) parts.push(tags["addr:housenumber"]);
     if (tags["addr:street"]) parts.push(tags["addr:street"]);
     if (tags["addr:postcode"]) parts.push(tags["addr:postcode"]);
+    if (cafe.quartier) parts.push(`· ${cafe.quartier.name}`);
     return parts.join(" ");
   };
 
@@ -130,6 +238,99 @@ export function CafeList({
     }
   };
 
+  // Explanations depend on the precision/step/day the scores were loaded with
+  const explanationKey = (cafeId: string) => `${cafeId}|${scoreQuery}`;
+
+  const loadExplanation = async (cafeId: string) => {
+    const key = explanationKey(cafeId);
+    setExplanations(prev => ({ ...prev, [key]: "loading" }));
+    try {
+      const res = await fetch(`/api/sunscore?${scoreQuery}&explain=1&id=${encodeURIComponent(cafeId)}`);
+      const data = await res.json();
+      const explanation = data.cafes?.[0]?.explain;
+      setExplanations(prev => ({ ...prev, [key]: explanation ?? "error" }));
+    } catch (error) {
+      console.error("Failed to load score explanation:", error);
+      setExplanations(prev => ({ ...prev, [key]: "error" }));
+    }
+  };
+
+  const renderExplanation = (explanation: CafeExplanation) => {
+    const factors = explanation.factorsByHour[stepOffset + selectedHour];
+    const { orientation } = explanation;
+    const facesText = orientation.method === "street"
+      ? `faces ${orientation.bearing}° toward ${orientation.streetName || "the street"}${orientation.streetDistance !== undefined ? ` (${orientation.streetDistance} m)` : ""}`
+      : `faces ${orientation.bearing}° (${orientation.method === "community" ? "community correction" : orientation.method === "terrace" ? "mapped terrace" : "heuristic"})`;
+    
+    if (!factors) return <div className="why-breakdown">Terrace {facesText}</div>;
+    
+    const percent = (x: number) => `${(x * 100).toFixed(0)}%`;
+    return (
+      <div className="why-breakdown">
+        <div className="why-method">
+          {factors.method} shadows · {percent(factors.confidence)} confidence · terrace {facesText}
+        </div>
+        <div className="why-factors">
+          <span className="why-factor">shadow {percent(factors.shadow)}</span>
+          <span className="why-factor">facing {percent(factors.facing)}</span>
+          <span className="why-factor">sun height {percent(factors.elevation)}</span>
+          <span className="why-factor">clear sky {percent(factors.cloud)}</span>
+          <span className="why-factor">radiation ×{factors.radiation}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderWhy = (cafeId: string) => {
+    const explanation = explanations[explanationKey(cafeId)];
+    if (explanation === undefined || explanation === "error") {
+      return (
+        <button className="why-button" onClick={() => loadExplanation(cafeId)}>
+          {explanation === "error" ? "Couldn't explain, retry" : "Why this score?"}
+        </button>
+      );
+    }
+    if (explanation === "loading") {
+      return <div className="why-breakdown">Explaining…</div>;
+    }
+    return renderExplanation(explanation);
+  };
+
+  // "I'm here" ground-truth report, scored against the live prediction server-side
+  const sendSunReport = async (cafe: Cafe, observed: SunObservation) => {
+    setSunReports(prev => ({ ...prev, [cafe.id]: "sending" }));
+    try {
+      const res = await fetch(`/api/cafes/${cafe.id}/reports?category=${cafe.category ?? "cafe"}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ observed }),
+      });
+      if (!res.ok) throw new Error(`Report failed: ${res.status}`);
+      setSunReports(prev => ({ ...prev, [cafe.id]: observed }));
+    } catch (error) {
+      console.error("Failed to send sun report:", error);
+      setSunReports(prev => ({ ...prev, [cafe.id]: "error" }));
+    }
+  };
+
+  const renderSunReport = (cafe: Cafe) => {
+    const state = sunReports[cafe.id];
+    if (state === "sending") return <div className="sun-report">Sending…</div>;
+    if (state && state !== "error") {
+      return <div className="sun-report">Thanks! Reported {SUN_REPORT_OPTIONS.find(o => o.value === state)?.label.toLowerCase()}</div>;
+    }
+    return (
+      <div className="sun-report">
+        {state === "error" ? "Couldn't send, retry:" : "I'm here:"}
+        {SUN_REPORT_OPTIONS.map(option => (
+          <button key={option.value} className="sun-report-button" onClick={() => sendSunReport(cafe, option.value)}>
+            {option.icon} {option.label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
   const toggleExpanded = (cafeId: string) => {
     const newExpanded = new Set(expandedCafes);
     if (newExpanded.has(cafeId)) {
@@ -143,8 +344,8 @@ export function CafeList({
   // Filter and sort cafes
   const filteredCafes = cafes
     .filter(cafe => {
-      // Filter out unnamed cafés
-      if (!cafe.name || cafe.name === "Unnamed Café" || cafe.name.trim() === "") {
+      // Filter out unnamed cafés (names arrive normalized, empty ones as null)
+      if (!cafe.name) {
         return false;
       }
       
@@ -160,6 +361,11 @@ export function CafeList({
             return favorites.has(cafe.id);
           }
           
+          // Sunny and not known to be closed
+          if (filterId === 'open_sunny') {
+            return cafe.labelByHour?.[selectedHour] === '☀️' && cafe.openByHour?.[selectedHour] !== false;
+          }
+          
           // Sun level filters
           if (filterId === 'sunny' || filterId === 'partial') {
             const currentLabel = cafe.labelByHour?.[selectedHour];
@@ -182,6 +388,13 @@ export function CafeList({
       return true;
     })
     .sort((a, b) => {
+      // Places known to be closed at the selected hour go last for sun and comfort
+      if (sortBy === "score" || sortBy === "comfort") {
+        const closedA = a.openByHour?.[selectedHour] === false;
+        const closedB = b.openByHour?.[selectedHour] === false;
+        if (closedA !== closedB) return closedA ? 1 : -1;
+      }
+      
       switch (sortBy) {
         case "name":
           return (a.name || "").localeCompare(b.name || "");
@@ -189,6 +402,8 @@ export function CafeList({
           const scoreA = a.scoreByHour?.[selectedHour] || 0;
           const scoreB = b.scoreByHour?.[selectedHour] || 0;
           return scoreB - scoreA;
+        case "comfort":
+          return (b.comfortByHour?.[selectedHour] || 0) - (a.comfortByHour?.[selectedHour] || 0);
         case "distance":
           // Calculate distance from user location or KINHOUSE_COORDS fallback
           const kinHouseCoords = process.env.NEXT_PUBLIC_KINHOUSE_COORDS?.split(',') || ['48.8566', '2.3522'];
@@ -228,12 +443,56 @@ export function CafeList({
               className="sort-select"
             >
               <option value="score">Sun Score</option>
+              <option value="comfort">Comfort</option>
               <option value="name">Name</option>
               <option value="distance">Distance</option>
             </select>
           </div>
         </div>
         
+        <div className="category-chips">
+          {CATEGORY_CHIPS.map(chip => (
+            <button
+              key={chip.id}
+              className={`category-chip ${categories.includes(chip.id) ? 'active' : ''}`}
+              onClick={() => toggleCategory(chip.id)}
+            >
+              {chip.label}
+            </button>
+          ))}
+        </div>
+
+        {areaOptions.length > 0 && (
+          <div className="area-selector">
+            <select
+              value={arrondissement ?? ""}
+              onChange={(e) => onAreaChange(e.target.value ? parseInt(e.target.value) : null, null)}
+              className="sort-select"
+              aria-label="Arrondissement"
+            >
+              <option value="">All Paris</option>
+              {areaOptions.map(option => (
+                <option key={option.arrondissement} value={option.arrondissement}>
+                  {formatArrondissement(option.arrondissement)}
+                </option>
+              ))}
+            </select>
+            {arrondissement !== null && (areaOptions.find(option => option.arrondissement === arrondissement)?.quartiers.length ?? 0) > 0 && (
+              <select
+                value={quartier ?? ""}
+                onChange={(e) => onAreaChange(arrondissement, e.target.value ? parseInt(e.target.value) : null)}
+                className="sort-select"
+                aria-label="Quartier"
+              >
+                <option value="">All quartiers</option>
+                {areaOptions.find(option => option.arrondissement === arrondissement)!.quartiers.map(q => (
+                  <option key={q.id} value={q.id}>{q.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
         <div className="filter-pills-row">
           <div className="filter-pills">
             {availableFilters.map(filter => (
@@ -260,12 +519,12 @@ export function CafeList({
 
       <div className="cafe-items">
         {displayedCafes.map((cafe) => {
-          const { label, score } = getScoreDisplay(cafe);
+          const { label, score, feelsLike } = getScoreDisplay(cafe);
           const isSelected = selectedCafe?.id === cafe.id;
           const isExpanded = expandedCafes.has(cafe.id);
           const address = getAddress(cafe);
           const amenities = getAmenities(cafe);
-          const hours = formatOpeningHours(cafe.tags?.opening_hours);
+          const hours = formatOpeningHours(cafe);
           const phone = cafe.tags?.phone;
           const website = cafe.tags?.website;
           const cafeName = cafe.name || "Unnamed Café";
@@ -306,6 +565,11 @@ export function CafeList({
                     <div className="cafe-address-preview">
                       📍 {address || 'Address not available'}
                     </div>
+                    {cafe.sunSummary && (
+                      <div className={`cafe-sun-summary ${cafe.sunWindows?.length ? 'sunny' : ''}`}>
+                        {cafe.sunWindows?.length ? '☀️' : '☁️'} {cafe.sunSummary}
+                      </div>
+                    )}
                     {sortBy === "distance" && (
                       <div className="cafe-distance-preview">
                         🚶 {distanceText}
@@ -346,6 +610,11 @@ export function CafeList({
                         {(score * 100).toFixed(0)}%
                       </div>
                     )}
+                    {feelsLike !== undefined && (
+                      <div className="feels-like-value" title="Feels like on the terrace">
+                        🌡️ {Math.round(feelsLike)}°
+                      </div>
+                    )}
                   </div>
                   <div className="expand-indicator">
                     {isExpanded ? '▼' : '▶'}
@@ -355,6 +624,54 @@ export function CafeList({
 
               {isExpanded && (
                 <div className="cafe-card-content">
+                  {cafe.dailySummary && (
+                    <div className="cafe-day-summary">
+                      {formatDaySummary(cafe.dailySummary)}
+                    </div>
+                  )}
+
+                  {cafe.sunWindows && cafe.sunWindows.length > 0 && (
+                    <div className="sun-windows">
+                      {cafe.sunWindows.map(window => (
+                        <span key={window.start} className="sun-window-badge">
+                          {formatTime(window.start)}–{formatTime(window.end)}
+                          <span className="sun-window-score">avg {(window.avgScore * 100).toFixed(0)}%</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {cafe.terrace && (
+                    <div className="cafe-terrace">
+                      🪑 Terrace {cafe.terrace.area} m², faces {cafe.terrace.bearing}°
+                      {typeof cafe.terraceSunByHour?.[selectedHour] === "number" && (
+                        <> · {((cafe.terraceSunByHour[selectedHour] as number) * 100).toFixed(0)}% in sun</>
+                      )}
+                    </div>
+                  )}
+
+                  {cafe.correction && (
+                    <div
+                      className="cafe-correction"
+                      title={cafe.correction.note ?? undefined}
+                    >
+                      ✏️ Community-corrected
+                      {typeof cafe.correction.bearing === "number" && <> · terrace faces {cafe.correction.bearing}°</>}
+                      {typeof cafe.correction.outdoorSeating === "boolean" && (
+                        <> · {cafe.correction.outdoorSeating ? "outdoor seating" : "no outdoor seating"}</>
+                      )}
+                      {" "}({new Date(cafe.correction.correctedAt).toLocaleDateString("en-GB", { timeZone: "Europe/Paris" })})
+                    </div>
+                  )}
+
+                  {renderWhy(cafe.id)}
+
+                  {renderSunReport(cafe)}
+
+                  <Link href={`/cafe/${cafe.id}?category=${cafe.category ?? "cafe"}`} className="cafe-detail-link">
+                    📅 Full-day sun profile →
+                  </Link>
+
                   {(hours || phone || website) && (
                     <div className="cafe-contact">
                       {hours && (
@@ -1,7 +1,9 @@
 "use client";
 
 import { useMemo, useState, useEffect, useRef } from "react";
-import Map, { Marker, Popup } from "react-map-gl/maplibre";
+import Map, { Popup, Source, Layer } from "react-map-gl/maplibre";
+import type { MapLayerMouseEvent } from "react-map-gl/maplibre";
+import type { ExpressionSpecification } from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
 
 type Cafe = {
@@ -11,17 +13,43 @@ type Cafe = {
   lon: number;
   labelByHour?: string[];
   scoreByHour?: number[];
+  sunWindows?: SunWindow[];
+  sunSummary?: string;
 };
 
+type SunWindow = {
+  start: string;
+  end: string;
+  peakScore: number;
+  peakAt: string;
+  avgScore: number;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/Paris" });
+
 type CafeMapProps = {
   cafes: Cafe[];
   selectedHour: number;
   selectedCafe: Cafe | null;
   onCafeSelect: (cafe: Cafe | null) => void;
+  sunnyShareByArea: Record<number, number>; // arrondissement → share of cafés sunny at selectedHour
+  selectedArrondissement: number | null;
+  onBoundsChange?: (bbox: [number, number, number, number]) => void; // south, west, north, east, after each move
+  sunTiles: { query: string; step: number }; // /api/tiles query, and the `label_<i>` step shown at selectedHour
 };
 
-export function CafeMap({ cafes, selectedHour, selectedCafe, onCafeSelect }: CafeMapProps) {
+// Visible area in the `bbox=` order of /api/cafes
+function visibleBBox(map: any): [number, number, number, number] {
+  const bounds = map.getBounds();
+  const r = (x: number) => Math.round(x * 100000) / 100000;
+  return [r(bounds.getSouth()), r(bounds.getWest()), r(bounds.getNorth()), r(bounds.getEast())];
+}
+
+export function CafeMap({ cafes, selectedHour, selectedCafe, onCafeSelect, sunnyShareByArea, selectedArrondissement, onBoundsChange, sunTiles }: CafeMapProps) {
   const [mapError, setMapError] = useState<string | null>(null);
+  const [hoveringCafe, setHoveringCafe] = useState(false);
+  const [areaBoundaries, setAreaBoundaries] = useState<any>(null);
   const [viewState, setViewState] = useState({
     longitude: 2.3522,
     latitude: 48.8566,
@@ -62,43 +90,41 @@ export function CafeMap({ cafes, selectedHour, selectedCafe, onCafeSelect }: Caf
     }
   }, [selectedCafe]);
 
-  const markers = useMemo(() => {
-    const getMarkerColor = (cafe: Cafe) => {
-      const label = cafe.labelByHour?.[selectedHour] || "☁️";
-      switch (label) {
-        case "☀️": return "#ff6b35"; // sunny orange
-        case "⛅": return "#f7931e"; // mixed yellow-orange  
-        case "☁️": return "#6c757d"; // shade gray
-        case "🌙": return "#4a4a4a"; // after dark
-        default: return "#6c757d";
-      }
+  // Arrondissement outlines, empty until the boundaries have been fetched server-side
+  useEffect(() => {
+    fetch("/api/areas")
+      .then(res => (res.ok ? res.json() : null))
+      .then(collection => collection && setAreaBoundaries(collection))
+      .catch(error => console.error("Failed to load area boundaries:", error));
+  }, []);
+
+  // Shade each arrondissement by how many of its cafés are sunny
+  const areaShading = useMemo(() => {
+    if (!areaBoundaries?.features?.length) return null;
+    return {
+      ...areaBoundaries,
+      features: areaBoundaries.features.map((feature: any) => {
+        const share = sunnyShareByArea[feature.properties.arrondissement];
+        return {
+          ...feature,
+          properties: { ...feature.properties, ...(share !== undefined && { sunnyShare: share }) },
+        };
+      }),
     };
+  }, [areaBoundaries, sunnyShareByArea]);
 
-    return cafes.map((cafe) => (
-      <Marker
-        key={cafe.id}
-        longitude={cafe.lon}
-        latitude={cafe.lat}
-        onClick={(e) => {
-          e.originalEvent.stopPropagation();
-          onCafeSelect(cafe);
-        }}
-      >
-        <div
-          className="map-marker"
-          style={{
-            backgroundColor: getMarkerColor(cafe),
-            width: selectedCafe?.id === cafe.id ? 16 : 12,
-            height: selectedCafe?.id === cafe.id ? 16 : 12,
-            borderRadius: "50%",
-            border: selectedCafe?.id === cafe.id ? "2px solid white" : "1px solid white",
-            cursor: "pointer",
-            boxShadow: "0 2px 4px rgba(0,0,0,0.3)"
-          }}
-        />
-      </Marker>
-    ));
-  }, [cafes, selectedHour, selectedCafe, onCafeSelect]);
+  // Café dots are drawn on the GPU from /api/tiles; tile URLs must be absolute
+  // for the map's workers
+  const tileUrl = typeof window === "undefined"
+    ? null
+    : `${window.location.origin}/api/tiles/{z}/{x}/{y}.mvt?${sunTiles.query}`;
+  const visibleIds = useMemo(() => cafes.map(cafe => cafe.id), [cafes]);
+  const isSelected: ExpressionSpecification = ["==", ["get", "id"], selectedCafe?.id ?? ""];
+
+  const handleMapClick = (evt: MapLayerMouseEvent) => {
+    const id = evt.features?.[0]?.properties?.id;
+    onCafeSelect(cafes.find(cafe => cafe.id === id) ?? null);
+  };
 
   if (mapError) {
     return (
@@ -128,15 +154,58 @@ export function CafeMap({ cafes, selectedHour, selectedCafe, onCafeSelect }: Caf
         ref={mapRef}
         {...viewState}
         onMove={evt => setViewState(evt.viewState)}
+        onLoad={evt => onBoundsChange?.(visibleBBox(evt.target))}
+        onMoveEnd={evt => onBoundsChange?.(visibleBBox(evt.target))}
         style={{ width: "100%", height: "100%" }}
         mapStyle={mapStyle}
-        onClick={() => onCafeSelect(null)}
+        interactiveLayerIds={["cafe-sun"]}
+        cursor={hoveringCafe ? "pointer" : "grab"}
+        onMouseEnter={() => setHoveringCafe(true)}
+        onMouseLeave={() => setHoveringCafe(false)}
+        onClick={handleMapClick}
         onError={(error) => {
           console.error("Map error:", error);
           setMapError("Map temporarily unavailable. Showing café list only.");
         }}
       >
-        {markers}
+        {areaShading && (
+          <Source id="areas" type="geojson" data={areaShading}>
+            <Layer
+              id="area-sun"
+              type="fill"
+              paint={{
+                "fill-color": ["interpolate", ["linear"], ["coalesce", ["get", "sunnyShare"], 0], 0, "#6c757d", 0.5, "#f7931e", 1, "#ff6b35"],
+                "fill-opacity": ["case", ["has", "sunnyShare"], 0.25, 0]
+              }}
+            />
+            <Layer
+              id="area-outline"
+              type="line"
+              paint={{
+                "line-color": ["case", ["==", ["get", "arrondissement"], selectedArrondissement ?? -1], "#ff6b35", "#6c757d"],
+                "line-width": ["case", ["==", ["get", "arrondissement"], selectedArrondissement ?? -1], 2.5, 0.8]
+              }}
+            />
+          </Source>
+        )}
+
+        {tileUrl && (
+          <Source key={tileUrl} id="sun-tiles" type="vector" tiles={[tileUrl]} maxzoom={16}>
+            <Layer
+              id="cafe-sun"
+              type="circle"
+              source-layer="cafes"
+              filter={["in", ["get", "id"], ["literal", visibleIds]]}
+              paint={{
+                // sunny orange, mixed yellow-orange, after dark, shade gray
+                "circle-color": ["match", ["get", `label_${sunTiles.step}`], "☀️", "#ff6b35", "⛅", "#f7931e", "🌙", "#4a4a4a", "#6c757d"],
+                "circle-radius": ["case", isSelected, 8, 6],
+                "circle-stroke-color": "#ffffff",
+                "circle-stroke-width": ["case", isSelected, 2, 1]
+              }}
+            />
+          </Source>
+        )}
         
         {selectedCafe && (
           <Popup
@@ -158,14 +227,15 @@ export function CafeMap({ cafes, selectedHour, selectedCafe, onCafeSelect }: Caf
                     </span>
                   )}
                 </div>
-                {selectedCafe.labelByHour && (
-                  <div className="hourly-preview">
-                    {selectedCafe.labelByHour.map((label, index) => (
-                      <span
-                        key={index}
-                        className={`mini-badge ${index === selectedHour ? 'current' : ''}`}
-                      >
-                        {label}
+                {selectedCafe.sunSummary && (
+                  <div className="popup-sun-summary">{selectedCafe.sunSummary}</div>
+                )}
+                {selectedCafe.sunWindows && selectedCafe.sunWindows.length > 0 && (
+                  <div className="sun-windows">
+                    {selectedCafe.sunWindows.map(window => (
+                      <span key={window.start} className="sun-window-badge">
+                        {formatTime(window.start)}–{formatTime(window.end)}
+                        <span className="sun-window-score">peak {(window.peakScore * 100).toFixed(0)}%</span>
                       </span>
                     ))}
                   </div>
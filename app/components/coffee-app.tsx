@@ -1,25 +1,149 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { WeatherHeader } from "./weather-header";
 import { CafeList } from "./cafe-list";
 import { CafeMap } from "./cafe-map";
 
+type PrecisionMode = "voxcity" | "buildings" | "heuristic";
+
+type StepMinutes = 15 | 30 | 60;
+
+// Order the settings toggle cycles through
+const PRECISION_MODES: PrecisionMode[] = ["voxcity", "buildings", "heuristic"];
+
+const FORECAST_DAYS = 7;
+
+// Wait for typing to pause before asking /api/cafes to filter
+const SEARCH_DEBOUNCE_MS = 250;
+
+type CategoryId = "cafe" | "brasserie" | "bar" | "pub" | "restaurant";
+
+type SunWindow = {
+  start: string;
+  end: string;
+  peakScore: number;
+  peakAt: string;
+  avgScore: number;
+};
+
+type DailySunSummary = {
+  date: string;
+  sunMinutes: number;
+  bestHour: string | null;
+  bestScore: number;
+  firstSunnyHour: string | null;
+  sunWindows: SunWindow[];
+  sunSummary: string;
+};
+
+// City-wide weather for one step (sunscore `conditions`)
+type StepConditions = {
+  temperature: number;
+  windSpeed: number;
+  humidity: number;
+  feelsLikeSun: number;
+  feelsLikeShade: number;
+};
+
+// Per-arrondissement aggregate (sunscore `areas`)
+type AreaSunSummary = {
+  arrondissement: number;
+  cafes: number;
+  sunnyShareByHour: number[];
+  avgScoreByHour: number[];
+};
+
+// One /api/recommend result
+type Recommendation = {
+  id: string;
+  name: string | null;
+  walkMinutes: number;
+  sunMinutes: number;
+  reason: string;
+};
+
 type Cafe = {
   id: string;
   name: string | null;
   lat: number;
   lon: number;
+  category?: CategoryId | null;
+  arrondissement?: number;
+  quartier?: { id: number; name: string };
   labelByHour?: string[];
   scoreByHour?: number[];
+  comfortByHour?: number[];
+  feelsLikeByHour?: number[];
+  openByHour?: boolean[];
+  terrace?: { id: string; area: number; bearing: number };
+  terraceSunByHour?: (number | null)[];
+  sunWindows?: SunWindow[];
+  sunSummary?: string;
+  dailySummary?: DailySunSummary;
 };
 
+// Index of the forecast step closest to the current time
+function closestStepIndex(hours: string[]): number {
+  const nowMs = Date.now();
+  let bestMatch = 0;
+  let minDiff = Infinity;
+  hours.forEach((hourISO, index) => {
+    const diff = Math.abs(new Date(hourISO).getTime() - nowMs);
+    if (diff < minDiff) {
+      minDiff = diff;
+      bestMatch = index;
+    }
+  });
+  return bestMatch;
+}
+
+// Call onEvent for each line of an NDJSON response as it arrives
+async function readNdjson(res: Response, onEvent: (event: any) => void) {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+    if (done) break;
+  }
+  if (buffered.trim()) onEvent(JSON.parse(buffered));
+}
+
+// Copy a café's sunscore results onto its /api/cafes record
+function withSunScores(cafe: Cafe, sunCafe: any): Cafe {
+  return {
+    ...cafe,
+    labelByHour: sunCafe?.labelByHour || [],
+    scoreByHour: sunCafe?.scoreByHour || [],
+    comfortByHour: sunCafe?.comfortByHour || [],
+    feelsLikeByHour: sunCafe?.feelsLikeByHour || [],
+    openByHour: sunCafe?.openByHour,
+    terrace: sunCafe?.terrace,
+    terraceSunByHour: sunCafe?.terraceSunByHour,
+    sunWindows: sunCafe?.sunWindows || [],
+    sunSummary: sunCafe?.sunSummary
+  };
+}
+
+// Paris-local dates for the day picker, today first
+function upcomingDates(count: number): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.now() + i * 24 * 60 * 60 * 1000).toLocaleDateString("en-CA", { timeZone: "Europe/Paris" })
+  );
+}
+
 export function CoffeeApp() {
   const [cafes, setCafes] = useState<Cafe[]>([]);
   const [sunScoreData, setSunScoreData] = useState<any>(null);
   const [selectedHour, setSelectedHour] = useState(0);
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<"name" | "distance" | "score">("score");
+  const [sortBy, setSortBy] = useState<"name" | "distance" | "score" | "comfort">("score");
   const [loading, setLoading] = useState(true);
   const [selectedCafe, setSelectedCafe] = useState<Cafe | null>(null);
   const [mapVisible, setMapVisible] = useState(false);
@@ -42,11 +166,21 @@ export function CoffeeApp() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
   const [userLocation, setUserLocation] = useState<{lat: number, lon: number} | null>(null);
-  const [precisionMode, setPrecisionMode] = useState(true);
+  const [precisionMode, setPrecisionMode] = useState<PrecisionMode>("voxcity");
+  const [stepMinutes, setStepMinutes] = useState<StepMinutes>(60);
+  const [categories, setCategories] = useState<CategoryId[]>(["cafe"]);
+  const [arrondissement, setArrondissement] = useState<number | null>(null); // null = all of Paris
+  const [quartier, setQuartier] = useState<number | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null); // null = next hours
+  const [forecastData, setForecastData] = useState<any>(null);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [voxCityStatus, setVoxCityStatus] = useState<any>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [menuExpanded, setMenuExpanded] = useState(false);
+  const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
+  const [recommending, setRecommending] = useState(false);
+  const [mapBBox, setMapBBox] = useState<string | null>(null); // visible map area, while the map is shown
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null); // null = no server-side filter
 
   // Initialize theme from localStorage or system preference
   useEffect(() => {
@@ -149,80 +283,203 @@ export function CoffeeApp() {
     saveFavorites(newFavorites);
   };
 
-  // Fetch initial data
+  const categoryParam = categories.join(",");
+
+  // Fetch initial data; sun scores stream in and cafés update batch by batch
   useEffect(() => {
+    let cancelled = false;
     async function loadData() {
       try {
         setLoading(true);
-        const precisionParam = precisionMode ? 'voxcity' : 'heuristic';
         const [cafesRes, sunScoreRes] = await Promise.all([
-          fetch("/api/cafes"),
-          fetch(`/api/sunscore?hours=8&precision=${precisionParam}`)
+          fetch(`/api/cafes?categories=${categoryParam}`),
+          fetch(`/api/sunscore?hours=8&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}&format=ndjson`)
         ]);
         
         const cafesData = await cafesRes.json();
-        const sunData = await sunScoreRes.json();
+        const baseCafes: Cafe[] = cafesData.cafes || [];
+        if (cancelled) return;
+        setCafes(baseCafes);
         
-        if (cafesData.cafes) {
-          setCafes(cafesData.cafes);
-        }
-        
-        if (sunData.cafes) {
-          setSunScoreData(sunData);
-          setVoxCityStatus(sunData.meta?.voxCityUsage || null);
-          
-          // Set selectedHour to current Paris time
-          if (sunData.hours) {
-            const currentParisTime = new Date().toLocaleString("en-US", {timeZone: "Europe/Paris"});
-            const currentHour = new Date(currentParisTime).getHours();
+        const scored = new Map<string, any>();
+        await readNdjson(sunScoreRes, event => {
+          if (cancelled) return;
+          if (event.type === 'header') {
+            setSunScoreData({ hours: event.hours, conditions: event.conditions, cafes: [] });
             
-            // Find the closest hour in the forecast
-            let bestMatch = 0;
-            let minDiff = Infinity;
-            sunData.hours.forEach((hourISO: string, index: number) => {
-              const forecastHour = new Date(hourISO).getHours();
-              const diff = Math.abs(forecastHour - currentHour);
-              if (diff < minDiff) {
-                minDiff = diff;
-                bestMatch = index;
-              }
-            });
-            setSelectedHour(bestMatch);
+            // Back to the next hours, with selectedHour at the current time
+            setSelectedDay(null);
+            setSelectedHour(closestStepIndex(event.hours));
+            setLoading(false);
+          } else if (event.type === 'cafes') {
+            event.cafes.forEach((sunCafe: any) => scored.set(sunCafe.id, sunCafe));
+            setCafes(baseCafes.map(cafe => (scored.has(cafe.id) ? withSunScores(cafe, scored.get(cafe.id)) : cafe)));
+          } else if (event.type === 'done') {
+            setSunScoreData((previous: any) => ({ ...previous, cafes: Array.from(scored.values()), areas: event.areas, meta: event.meta }));
+            setVoxCityStatus(event.meta?.voxCityUsage || null);
+          } else if (event.type === 'error') {
+            console.error("Sun scores failed:", event.message);
           }
-          
-          // Merge sun score data with cafes
-          const mergedCafes = cafesData.cafes?.map((cafe: Cafe) => {
-            const sunCafe = sunData.cafes.find((sc: any) => sc.id === cafe.id);
-            return {
-              ...cafe,
-              labelByHour: sunCafe?.labelByHour || [],
-              scoreByHour: sunCafe?.scoreByHour || []
-            };
-          }) || [];
-          setCafes(mergedCafes);
-        }
+        });
       } catch (error) {
         console.error("Failed to load data:", error);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     }
     
     loadData();
-  }, [precisionMode]); // Reload when precision mode changes
+    return () => { cancelled = true; };
+  }, [precisionMode, stepMinutes, categoryParam]); // Reload when precision mode, time step or categories change
+
+  // Search, arrondissement and map area are filtered by /api/cafes; the list
+  // keeps the scored cafés it returns
+  useEffect(() => {
+    const query = new URLSearchParams({ categories: categoryParam });
+    if (searchQuery.trim()) query.set("q", searchQuery.trim());
+    if (arrondissement !== null) query.set("arrondissement", String(arrondissement));
+    if (mapVisible && mapBBox) query.set("bbox", mapBBox);
+    if (Array.from(query.keys()).length === 1) {
+      setMatchingIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/cafes?${query}`);
+        const data = await res.json();
+        if (!cancelled && res.ok) setMatchingIds(new Set((data.cafes || []).map((cafe: Cafe) => cafe.id)));
+      } catch (error) {
+        console.error("Failed to filter cafés:", error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [categoryParam, searchQuery, arrondissement, mapVisible, mapBBox]);
+
+  // Multi-day forecast is loaded lazily, the first time a day is picked
+  const wantsForecast = selectedDay !== null;
+  useEffect(() => {
+    if (!wantsForecast) return;
+    
+    let cancelled = false;
+    async function loadForecast() {
+      try {
+        setForecastData(null);
+        const res = await fetch(`/api/sunscore?days=${FORECAST_DAYS}&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}`);
+        const data = await res.json();
+        if (!cancelled && data.cafes) {
+          setForecastData(data);
+        }
+      } catch (error) {
+        console.error("Failed to load forecast:", error);
+      }
+    }
+    
+    loadForecast();
+    return () => { cancelled = true; };
+  }, [wantsForecast, precisionMode, stepMinutes, categoryParam]);
+
+  const handleDayChange = (day: string | null) => {
+    setSelectedDay(day);
+    setSelectedHour(day === null ? closestStepIndex(sunScoreData?.hours || []) : 0);
+  };
+
+  // Steps and per-café scores for the selected day (or the next hours)
+  const forecastDay = selectedDay !== null
+    ? forecastData?.days?.find((day: any) => day.date === selectedDay) ?? null
+    : null;
+
+  // The map's tiles score the same steps as the list: the next hours, or the
+  // forecast days with the selected day's steps offset into them
+  const sunTiles = {
+    query: selectedDay === null
+      ? `hours=8&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}`
+      : `days=${FORECAST_DAYS}&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}`,
+    step: selectedHour + (forecastDay?.start ?? 0),
+  };
+
+  const dayCafes = useMemo<Cafe[]>(() => {
+    if (selectedDay === null) return cafes;
+    if (!forecastDay) return cafes.map(cafe => ({
+      ...cafe,
+      labelByHour: [],
+      scoreByHour: [],
+      comfortByHour: [],
+      feelsLikeByHour: [],
+      sunWindows: [],
+      sunSummary: undefined
+    }));
+    
+    const forecastById = new Map<string, any>(forecastData.cafes.map((fc: any) => [fc.id, fc]));
+    return cafes.map(cafe => {
+      const forecastCafe = forecastById.get(cafe.id);
+      const dailySummary: DailySunSummary | undefined = forecastCafe?.dailySummaries?.find(
+        (summary: DailySunSummary) => summary.date === selectedDay
+      );
+      return {
+        ...cafe,
+        labelByHour: forecastCafe?.labelByHour.slice(forecastDay.start, forecastDay.end) || [],
+        scoreByHour: forecastCafe?.scoreByHour.slice(forecastDay.start, forecastDay.end) || [],
+        comfortByHour: forecastCafe?.comfortByHour?.slice(forecastDay.start, forecastDay.end) || [],
+        feelsLikeByHour: forecastCafe?.feelsLikeByHour?.slice(forecastDay.start, forecastDay.end) || [],
+        terraceSunByHour: forecastCafe?.terraceSunByHour?.slice(forecastDay.start, forecastDay.end),
+        openByHour: forecastCafe?.openByHour?.slice(forecastDay.start, forecastDay.end),
+        sunWindows: dailySummary?.sunWindows || [],
+        sunSummary: dailySummary?.sunSummary,
+        dailySummary,
+      };
+    });
+  }, [cafes, selectedDay, forecastDay, forecastData]);
+
+  // Arrondissements and quartiers the loaded cafés fall in, for the area selector
+  const areaOptions = useMemo(() => {
+    const quartiersByArrondissement = new Map<number, Map<number, string>>();
+    for (const cafe of cafes) {
+      if (!cafe.arrondissement) continue;
+      const quartiers = quartiersByArrondissement.get(cafe.arrondissement) ?? new Map<number, string>();
+      if (cafe.quartier) quartiers.set(cafe.quartier.id, cafe.quartier.name);
+      quartiersByArrondissement.set(cafe.arrondissement, quartiers);
+    }
+    return Array.from(quartiersByArrondissement.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([arrondissement, quartiers]) => ({
+        arrondissement,
+        quartiers: Array.from(quartiers.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([id, name]) => ({ id, name })),
+      }));
+  }, [cafes]);
+
+  const handleAreaChange = (nextArrondissement: number | null, nextQuartier: number | null) => {
+    setArrondissement(nextArrondissement);
+    setQuartier(nextQuartier);
+  };
 
   // Filter and sort cafes
-  const filteredCafes = cafes
+  const filteredCafes = dayCafes
     .filter(cafe => {
-      // Filter out unnamed cafés
-      if (!cafe.name || cafe.name === "Unnamed Café" || cafe.name.trim() === "") {
+      // Filter out unnamed cafés (names arrive normalized, empty ones as null)
+      if (!cafe.name) {
+        return false;
+      }
+      if (matchingIds && !matchingIds.has(cafe.id)) {
         return false;
       }
-      // Apply search filter
-      return !searchQuery || 
-        cafe.name.toLowerCase().includes(searchQuery.toLowerCase());
+      // /api/cafes has no quartier filter; quartiers sit inside the requested arrondissement
+      return quartier === null || cafe.quartier?.id === quartier;
     })
     .sort((a, b) => {
+      // Places known to be closed at the selected hour go last for sun and comfort
+      if (sortBy === "score" || sortBy === "comfort") {
+        const closedA = a.openByHour?.[selectedHour] === false;
+        const closedB = b.openByHour?.[selectedHour] === false;
+        if (closedA !== closedB) return closedA ? 1 : -1;
+      }
+      
       switch (sortBy) {
         case "name":
           return (a.name || "").localeCompare(b.name || "");
@@ -230,6 +487,8 @@ export function CoffeeApp() {
           const scoreA = a.scoreByHour?.[selectedHour] || 0;
           const scoreB = b.scoreByHour?.[selectedHour] || 0;
           return scoreB - scoreA;
+        case "comfort":
+          return (b.comfortByHour?.[selectedHour] || 0) - (a.comfortByHour?.[selectedHour] || 0);
         case "distance":
           // Calculate distance from user location or KINHOUSE_COORDS fallback
           const refLat = userLocation?.lat || 48.8566;
@@ -248,7 +507,22 @@ export function CoffeeApp() {
       }
     });
 
-  const hours = sunScoreData?.hours || [];
+  const hours = selectedDay === null
+    ? sunScoreData?.hours || []
+    : forecastDay ? forecastData.hours.slice(forecastDay.start, forecastDay.end) : [];
+  const conditions: StepConditions[] = selectedDay === null
+    ? sunScoreData?.conditions || []
+    : forecastDay ? forecastData.conditions?.slice(forecastDay.start, forecastDay.end) || [] : [];
+  const areaSummaries: AreaSunSummary[] = selectedDay === null
+    ? sunScoreData?.areas || []
+    : forecastDay ? (forecastData.areas || []).map((area: AreaSunSummary) => ({
+      ...area,
+      sunnyShareByHour: area.sunnyShareByHour.slice(forecastDay.start, forecastDay.end),
+      avgScoreByHour: area.avgScoreByHour.slice(forecastDay.start, forecastDay.end),
+    })) : [];
+  const sunnyShareByArea: Record<number, number> = Object.fromEntries(
+    areaSummaries.map(area => [area.arrondissement, area.sunnyShareByHour[selectedHour] ?? 0])
+  );
 
   // Function to show café on map - opens map and selects café
   const handleShowOnMap = (cafe: Cafe) => {
@@ -256,6 +530,31 @@ export function CoffeeApp() {
     setMapVisible(true);
   };
 
+  // Best places to walk to for the next two hours, from the user's location
+  const recommend = async () => {
+    const origin = userLocation || { lat: 48.8566, lon: 2.3522 };
+    try {
+      setRecommending(true);
+      const params = new URLSearchParams({
+        lat: String(origin.lat),
+        lon: String(origin.lon),
+        within: "120",
+        maxWalkMin: "15",
+        categories: categoryParam,
+        precision: precisionMode,
+        favorites: Array.from(favorites).join(","),
+      });
+      const res = await fetch(`/api/recommend?${params}`);
+      const data = await res.json();
+      setRecommendations(data.recommendations || []);
+    } catch (error) {
+      console.error("Failed to get recommendations:", error);
+      setRecommendations([]);
+    } finally {
+      setRecommending(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="coffee-app loading">
@@ -272,8 +571,44 @@ export function CoffeeApp() {
         hours={hours}
         selectedHour={selectedHour}
         onHourChange={setSelectedHour}
+        stepMinutes={stepMinutes}
+        onStepChange={setStepMinutes}
+        days={upcomingDates(FORECAST_DAYS)}
+        selectedDay={selectedDay}
+        onDayChange={handleDayChange}
+        dayLoading={selectedDay !== null && !forecastData}
+        conditions={conditions[selectedHour] ?? null}
+        openByHour={dayCafes.find(cafe => cafe.id === selectedCafe?.id)?.openByHour}
       />
       
+      <div className="recommend-bar">
+        <button className="recommend-button" onClick={recommend} disabled={recommending}>
+          {recommending ? "Finding sun..." : "☀️ Take me somewhere sunny"}
+        </button>
+        {recommendations && (
+          <div className="recommendations">
+            {recommendations.length === 0 && (
+              <div className="recommendation-empty">Nothing sunny within a 15 min walk right now.</div>
+            )}
+            {recommendations.map(rec => {
+              const cafe = cafes.find(c => c.id === rec.id);
+              return (
+                <button
+                  key={rec.id}
+                  className="recommendation"
+                  onClick={() => cafe && handleShowOnMap(cafe)}
+                  disabled={!cafe}
+                >
+                  <span className="recommendation-name">{rec.name}</span>
+                  <span className="recommendation-reason">{rec.reason}</span>
+                </button>
+              );
+            })}
+            <button className="clear-filters" onClick={() => setRecommendations(null)}>Close</button>
+          </div>
+        )}
+      </div>
+      
       <div className={`main-content ${mapVisible ? 'map-visible' : ''}`}>
         <div className="left-panel">
           <CafeList
@@ -289,6 +624,16 @@ export function CoffeeApp() {
             onShowOnMap={handleShowOnMap}
             favorites={favorites}
             onToggleFavorite={toggleFavorite}
+            scoreQuery={selectedDay === null
+              ? `hours=8&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}`
+              : `days=${FORECAST_DAYS}&precision=${precisionMode}&step=${stepMinutes}m&categories=${categoryParam}`}
+            categories={categories}
+            onCategoriesChange={setCategories}
+            areaOptions={areaOptions}
+            arrondissement={arrondissement}
+            quartier={quartier}
+            onAreaChange={handleAreaChange}
+            stepOffset={forecastDay?.start ?? 0}
           />
         </div>
         
@@ -307,6 +652,10 @@ export function CoffeeApp() {
               selectedHour={selectedHour}
               selectedCafe={selectedCafe}
               onCafeSelect={setSelectedCafe}
+              sunnyShareByArea={sunnyShareByArea}
+              selectedArrondissement={arrondissement}
+              onBoundsChange={bbox => setMapBBox(bbox.join(","))}
+              sunTiles={sunTiles}
             />
           )}
         </div>
@@ -325,25 +674,38 @@ export function CoffeeApp() {
           <div className={`menu-items ${menuExpanded ? 'expanded' : ''}`}>
             <div className="control-item">
               <button
-                className={`control-toggle ${precisionMode ? 'precision' : 'heuristic'}`}
-                onClick={() => setPrecisionMode(!precisionMode)}
+                className={`control-toggle ${precisionMode === 'heuristic' ? 'heuristic' : 'precision'}`}
+                onClick={() => setPrecisionMode(
+                  PRECISION_MODES[(PRECISION_MODES.indexOf(precisionMode) + 1) % PRECISION_MODES.length]
+                )}
                 aria-label="Toggle calculation mode"
               >
-                <span className="toggle-label">{precisionMode ? 'P' : 'H'}</span>
+                <span className="toggle-label">
+                  {precisionMode === 'voxcity' ? 'P' : precisionMode === 'buildings' ? 'B' : 'H'}
+                </span>
               </button>
               <div className="control-tooltip">
                 <div className="tooltip-content">
                   <div className="tooltip-header">
-                    <strong>{precisionMode ? 'Precision Mode' : 'Heuristic Mode'}</strong>
+                    <strong>
+                      {precisionMode === 'voxcity' ? 'Precision Mode' : precisionMode === 'buildings' ? 'Buildings Mode' : 'Heuristic Mode'}
+                    </strong>
                   </div>
                   <div className="tooltip-body">
-                    {precisionMode ? (
+                    {precisionMode === 'voxcity' ? (
                       <>
                         <div>🎯 <strong>High-accuracy calculations</strong></div>
                         <div>• Real shadow analysis</div>
                         <div>• 2-5m resolution accuracy</div>
                         <div>• Uses precomputed data</div>
                       </>
+                    ) : precisionMode === 'buildings' ? (
+                      <>
+                        <div>🏢 <strong>Building ray casting</strong></div>
+                        <div>• OSM footprints & heights</div>
+                        <div>• Ray toward the sun per hour</div>
+                        <div>• Heuristic outside coverage</div>
+                      </>
                     ) : (
                       <>
                         <div>📐 <strong>Fast approximations</strong></div>
@@ -2,13 +2,45 @@
 
 import { useState, useEffect } from "react";
 
+type StepMinutes = 15 | 30 | 60;
+
+type StepConditions = {
+  temperature: number;
+  windSpeed: number;
+  humidity: number;
+  feelsLikeSun: number;
+  feelsLikeShade: number;
+};
+
 type WeatherHeaderProps = {
   hours: string[];
   selectedHour: number;
   onHourChange: (hour: number) => void;
+  stepMinutes: StepMinutes;
+  onStepChange: (step: StepMinutes) => void;
+  days: string[]; // YYYY-MM-DD
+  selectedDay: string | null; // null = next hours
+  onDayChange: (day: string | null) => void;
+  dayLoading?: boolean;
+  conditions?: StepConditions | null; // selected step
+  openByHour?: boolean[]; // selected café, greys out closed steps
 };
 
-export function WeatherHeader({ hours, selectedHour, onHourChange }: WeatherHeaderProps) {
+const STEP_OPTIONS: StepMinutes[] = [60, 30, 15];
+
+export function WeatherHeader({
+  hours,
+  selectedHour,
+  onHourChange,
+  stepMinutes,
+  onStepChange,
+  days,
+  selectedDay,
+  onDayChange,
+  dayLoading,
+  conditions,
+  openByHour
+}: WeatherHeaderProps) {
   const [weather, setWeather] = useState<any>(null);
 
   useEffect(() => {
@@ -26,12 +58,29 @@ export function WeatherHeader({ hours, selectedHour, onHourChange }: WeatherHead
 
   const formatHour = (hourISO: string) => {
     const date = new Date(hourISO);
+    if (date.getMinutes() !== 0) {
+      return date.toLocaleTimeString('en-GB', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false
+      });
+    }
     return date.toLocaleTimeString('en-US', { 
       hour: 'numeric', 
       hour12: false 
     }).replace(':00', 'h');
   };
 
+  const formatDay = (date: string, index: number) => {
+    if (index === 0) return "Today";
+    if (index === 1) return "Tomorrow";
+    // Noon UTC keeps the weekday stable across time zones
+    return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      day: 'numeric'
+    });
+  };
+
   const getWeatherIcon = () => {
     // Simple weather icon based on temperature and time
     if (!weather) return "🌡️";
@@ -57,25 +106,69 @@ export function WeatherHeader({ hours, selectedHour, onHourChange }: WeatherHead
           <div className="temperature">
             {weather?.current?.temp_c ? Math.round(weather.current.temp_c) : '--'}°C / {weather?.current?.temp_f ? Math.round(weather.current.temp_f) : '--'}°F
           </div>
+          {conditions && (
+            <div className="feels-like" title={`${conditions.temperature}°C air, ${conditions.windSpeed} m/s wind, ${conditions.humidity}% humidity`}>
+              Feels {Math.round(conditions.feelsLikeSun)}° in the sun · {Math.round(conditions.feelsLikeShade)}° in shade
+            </div>
+          )}
         </div>
       </div>
 
-      {hours.length > 0 && (
-        <div className="time-slider">
-          <div className="slider-label">Next hours:</div>
-          <div className="hour-pills">
-            {hours.map((hour, index) => (
-              <button
-                key={hour}
-                className={`hour-pill ${index === selectedHour ? 'active' : ''}`}
-                onClick={() => onHourChange(index)}
-              >
-                {formatHour(hour)}
-              </button>
-            ))}
-          </div>
+      <div className="time-controls">
+        <div className="day-picker">
+          <button
+            className={`day-pill ${selectedDay === null ? 'active' : ''}`}
+            onClick={() => onDayChange(null)}
+          >
+            Now
+          </button>
+          {days.map((day, index) => (
+            <button
+              key={day}
+              className={`day-pill ${selectedDay === day ? 'active' : ''}`}
+              onClick={() => onDayChange(day)}
+            >
+              {formatDay(day, index)}
+            </button>
+          ))}
         </div>
-      )}
+
+        {dayLoading && (
+          <div className="time-slider">
+            <div className="slider-label">Loading forecast...</div>
+          </div>
+        )}
+
+        {hours.length > 0 && (
+          <div className="time-slider">
+            <div className="slider-label">{selectedDay === null ? 'Next hours:' : 'Daylight hours:'}</div>
+            <div className={`hour-pills ${stepMinutes < 60 ? 'fine' : ''}`}>
+              {hours.map((hour, index) => (
+                <button
+                  key={hour}
+                  className={`hour-pill ${index === selectedHour ? 'active' : ''} ${new Date(hour).getMinutes() !== 0 ? 'sub-hour' : ''} ${openByHour?.[index] === false ? 'closed' : ''}`}
+                  onClick={() => onHourChange(index)}
+                  title={openByHour?.[index] === false ? 'Closed' : undefined}
+                >
+                  {formatHour(hour)}
+                </button>
+              ))}
+            </div>
+            <div className="step-toggle">
+              {STEP_OPTIONS.map(step => (
+                <button
+                  key={step}
+                  className={`step-option ${step === stepMinutes ? 'active' : ''}`}
+                  onClick={() => onStepChange(step)}
+                  title={`${step}-minute steps`}
+                >
+                  {step === 60 ? '1h' : `${step}m`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,123 @@
+/**
+ * Paris arrondissements and quartiers
+ *
+ * Boundary polygons live in `public/geo/` (written by
+ * `npm run fetch-areas` from the Paris open data portal). Cafés are placed
+ * with a point-in-polygon test at ingestion; without the polygons the
+ * arrondissement comes from a `750xx` postcode.
+ */
+import fsp from "fs/promises";
+import path from "path";
+import { bbox, booleanPointInPolygon, point } from "@turf/turf";
+
+export type CafeArea = {
+  arrondissement?: number; // 1-20
+  quartier?: { id: number; name: string }; // 1-80, administrative quartiers
+};
+
+type AreaFeature = {
+  type: "Feature";
+  properties: { arrondissement: number; name: string; quartier?: number };
+  geometry: { type: "Polygon"; coordinates: number[][][] } | { type: "MultiPolygon"; coordinates: number[][][][] };
+};
+
+export type AreaCollection = { type: "FeatureCollection"; features: AreaFeature[] };
+
+export type AreaLevel = 'arrondissement' | 'quartier';
+
+type IndexedArea = { feature: AreaFeature; box: number[] };
+
+const GEO_DIR = path.join(process.cwd(), "public", "geo");
+const AREA_FILES: Record<AreaLevel, string> = {
+  arrondissement: "arrondissements.geojson",
+  quartier: "quartiers.geojson",
+};
+
+const collections = new Map<AreaLevel, AreaCollection>();
+const reportedMissing = new Set<AreaLevel>();
+
+/**
+ * Boundary polygons for a level, loaded once. Empty while the file is missing,
+ * and read again on the next call so `npm run fetch-areas` needs no restart;
+ * an unreadable or invalid file throws.
+ */
+export async function loadAreas(level: AreaLevel): Promise<AreaCollection> {
+  const loaded = collections.get(level);
+  if (loaded) return loaded;
+
+  let txt: string;
+  try {
+    txt = await fsp.readFile(path.join(GEO_DIR, AREA_FILES[level]), "utf8");
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+    if (!reportedMissing.has(level)) {
+      console.warn(`⚠️ public/geo/${AREA_FILES[level]} is missing, run npm run fetch-areas; using postcodes`);
+      reportedMissing.add(level);
+    }
+    return { type: "FeatureCollection", features: [] };
+  }
+
+  const collection = JSON.parse(txt) as AreaCollection;
+  collections.set(level, collection);
+  return collection;
+}
+
+/**
+ * Paris arrondissement from a `750xx` postcode (75116 is the 16th)
+ */
+export function arrondissementFromPostcode(postcode: string | undefined): number | null {
+  const match = (postcode ?? "").match(/^75(?:0(\d\d)|1(16))$/);
+  if (!match) return null;
+  const arrondissement = parseInt(match[1] ?? match[2]);
+  return arrondissement >= 1 && arrondissement <= 20 ? arrondissement : null;
+}
+
+/**
+ * Parse an `arrondissement=5,6` parameter; null when absent or empty
+ */
+export function parseArrondissements(param: string | null | undefined): number[] | null {
+  const values = (param ?? "")
+    .split(",")
+    .map(value => parseInt(value.trim()))
+    .filter(value => value >= 1 && value <= 20);
+  return values.length > 0 ? Array.from(new Set(values)).sort((a, b) => a - b) : null;
+}
+
+function indexAreas(collection: AreaCollection): IndexedArea[] {
+  return collection.features.map(feature => ({ feature, box: bbox(feature) }));
+}
+
+function containing(areas: IndexedArea[], lon: number, lat: number): AreaFeature | null {
+  const found = areas.find(({ feature, box: [west, south, east, north] }) =>
+    lon >= west && lon <= east && lat >= south && lat <= north && booleanPointInPolygon(point([lon, lat]), feature.geometry)
+  );
+  return found?.feature ?? null;
+}
+
+/**
+ * Tag each café with its arrondissement and quartier. Quartier polygons give
+ * both; arrondissement polygons and then the postcode are fallbacks.
+ */
+export async function assignAreas<T extends { lat: number; lon: number; tags: Record<string, any> }>(
+  cafes: T[]
+): Promise<(T & CafeArea)[]> {
+  const [quartiers, arrondissements] = await Promise.all([
+    loadAreas('quartier').then(indexAreas),
+    loadAreas('arrondissement').then(indexAreas),
+  ]);
+
+  return cafes.map(cafe => {
+    const quartier = containing(quartiers, cafe.lon, cafe.lat);
+    if (quartier && quartier.properties.quartier !== undefined) {
+      return {
+        ...cafe,
+        arrondissement: quartier.properties.arrondissement,
+        quartier: { id: quartier.properties.quartier, name: quartier.properties.name },
+      };
+    }
+
+    const arrondissement = containing(arrondissements, cafe.lon, cafe.lat)?.properties.arrondissement
+      ?? arrondissementFromPostcode(cafe.tags?.["addr:postcode"]);
+    return arrondissement ? { ...cafe, arrondissement } : cafe;
+  });
+}
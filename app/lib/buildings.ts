@@ -0,0 +1,397 @@
+/**
+ * OSM Building Shadows - ray-cast shadow engine
+ *
+ * Loads building footprints with `height` / `building:levels` from a local
+ * OSM extract (GeoJSON) or a cached Overpass dump and casts a ray from a café
+ * toward the sun to decide whether a building blocks it.
+ */
+
+import fsp from "fs/promises";
+import path from "path";
+
+export interface BuildingShadowResult {
+  shadowValue: number; // 0-1, where 0=full shadow, 1=full sun
+  precision: 'buildings' | 'heuristic';
+  confidence: number; // 0-1 confidence score
+  source?: string;
+  blocker?: {
+    id: string;
+    height: number; // meters
+    distance: number; // meters from the café along the ray
+    heightSource: BuildingHeightSource;
+  };
+}
+
+export type BuildingHeightSource = 'height' | 'levels' | 'default';
+
+export type Building = {
+  id: string;
+  height: number; // meters
+  heightSource: BuildingHeightSource;
+  polygon: [number, number][]; // [lon, lat] ring
+  bbox: { south: number; west: number; north: number; east: number };
+};
+
+export type BuildingIndex = {
+  buildings: Building[];
+  cells: Map<string, number[]>;
+  bounds: { south: number; west: number; north: number; east: number } | null;
+  source: string;
+};
+
+// Roadmap defaults: levels×3 m, 12 m when nothing is tagged
+const METERS_PER_LEVEL = 3;
+const DEFAULT_BUILDING_HEIGHT = 12;
+const OBSERVER_HEIGHT = 1.2; // seated person on a terrace
+const MAX_RAY_DISTANCE = 300; // meters
+const CELL_SIZE = 0.002; // degrees, ~150-220m grid cells
+
+const METERS_PER_DEG_LAT = 110540;
+const METERS_PER_DEG_LON_EQUATOR = 111320;
+
+const DEFAULT_DATA_PATH = path.join(process.cwd(), "public", "osm", "buildings.json");
+
+let indexPromise: Promise<BuildingIndex> | null = null;
+
+/**
+ * Parse an OSM height tag ("12", "12 m", "12.5m") into meters
+ */
+export function parseBuildingHeight(tags: Record<string, any> = {}): { height: number; heightSource: BuildingHeightSource } {
+  const rawHeight = typeof tags.height === "string" ? parseFloat(tags.height) : tags.height;
+  if (typeof rawHeight === "number" && isFinite(rawHeight) && rawHeight > 0) {
+    return { height: rawHeight, heightSource: 'height' };
+  }
+
+  const rawLevels = typeof tags["building:levels"] === "string"
+    ? parseFloat(tags["building:levels"])
+    : tags["building:levels"];
+  if (typeof rawLevels === "number" && isFinite(rawLevels) && rawLevels > 0) {
+    // Roof levels add a bit of height on top of the main levels
+    const roofLevels = parseFloat(tags["roof:levels"] ?? "0") || 0;
+    return { height: (rawLevels + roofLevels * 0.5) * METERS_PER_LEVEL, heightSource: 'levels' };
+  }
+
+  return { height: DEFAULT_BUILDING_HEIGHT, heightSource: 'default' };
+}
+
+function ringBbox(ring: [number, number][]) {
+  let south = Infinity, west = Infinity, north = -Infinity, east = -Infinity;
+  for (const [lon, lat] of ring) {
+    if (lat < south) south = lat;
+    if (lat > north) north = lat;
+    if (lon < west) west = lon;
+    if (lon > east) east = lon;
+  }
+  return { south, west, north, east };
+}
+
+function makeBuilding(id: string, tags: Record<string, any> | undefined, ring: [number, number][]): Building | null {
+  if (ring.length < 3) return null;
+
+  // Ray casting walks consecutive edges, so the ring must be closed
+  const [firstLon, firstLat] = ring[0];
+  const [lastLon, lastLat] = ring[ring.length - 1];
+  if (firstLon !== lastLon || firstLat !== lastLat) {
+    ring = [...ring, ring[0]];
+  }
+
+  return {
+    id,
+    ...parseBuildingHeight(tags),
+    polygon: ring,
+    bbox: ringBbox(ring),
+  };
+}
+
+/**
+ * Convert a raw Overpass dump (`out geom`) or a GeoJSON FeatureCollection
+ * into a flat list of buildings
+ */
+export function parseBuildings(raw: any): Building[] {
+  const buildings: Building[] = [];
+
+  // Overpass JSON: ways carry an inline `geometry` array with `out geom`
+  if (Array.isArray(raw?.elements)) {
+    for (const el of raw.elements) {
+      if (!el.tags?.building && !el.tags?.["building:part"]) continue;
+
+      if (el.type === "way" && Array.isArray(el.geometry)) {
+        const ring = el.geometry.map((p: any) => [p.lon, p.lat] as [number, number]);
+        const building = makeBuilding(`way/${el.id}`, el.tags, ring);
+        if (building) buildings.push(building);
+      } else if (el.type === "relation" && Array.isArray(el.members)) {
+        // Multipolygons: use each outer ring as its own footprint
+        el.members
+          .filter((m: any) => m.role === "outer" && Array.isArray(m.geometry))
+          .forEach((m: any, i: number) => {
+            const ring = m.geometry.map((p: any) => [p.lon, p.lat] as [number, number]);
+            const building = makeBuilding(`relation/${el.id}#${i}`, el.tags, ring);
+            if (building) buildings.push(building);
+          });
+      }
+    }
+    return buildings;
+  }
+
+  // GeoJSON (e.g. `osmium export paris.osm.pbf -f geojson`)
+  if (raw?.type === "FeatureCollection" && Array.isArray(raw.features)) {
+    raw.features.forEach((feature: any, i: number) => {
+      const props = feature.properties ?? {};
+      const id = String(feature.id ?? props["@id"] ?? props.id ?? `feature/${i}`);
+      const geometry = feature.geometry;
+      if (!geometry) return;
+
+      const outerRings: [number, number][][] =
+        geometry.type === "Polygon" ? [geometry.coordinates[0]] :
+        geometry.type === "MultiPolygon" ? geometry.coordinates.map((poly: any) => poly[0]) :
+        [];
+
+      outerRings.forEach((ring, ringIndex) => {
+        const building = makeBuilding(outerRings.length > 1 ? `${id}#${ringIndex}` : id, props, ring);
+        if (building) buildings.push(building);
+      });
+    });
+  }
+
+  return buildings;
+}
+
+function cellKey(latCell: number, lonCell: number): string {
+  return `${latCell}_${lonCell}`;
+}
+
+/**
+ * Build a grid index over building bounding boxes
+ */
+export function buildBuildingIndex(buildings: Building[], source: string): BuildingIndex {
+  const cells = new Map<string, number[]>();
+  let bounds: BuildingIndex["bounds"] = null;
+
+  buildings.forEach((building, i) => {
+    const { south, west, north, east } = building.bbox;
+    for (let latCell = Math.floor(south / CELL_SIZE); latCell <= Math.floor(north / CELL_SIZE); latCell++) {
+      for (let lonCell = Math.floor(west / CELL_SIZE); lonCell <= Math.floor(east / CELL_SIZE); lonCell++) {
+        const key = cellKey(latCell, lonCell);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+
+    bounds = bounds
+      ? {
+          south: Math.min(bounds.south, south),
+          west: Math.min(bounds.west, west),
+          north: Math.max(bounds.north, north),
+          east: Math.max(bounds.east, east),
+        }
+      : { south, west, north, east };
+  });
+
+  return { buildings, cells, bounds, source };
+}
+
+async function loadBuildingIndex(): Promise<BuildingIndex> {
+  const candidates = [process.env.BUILDINGS_DATA_PATH, DEFAULT_DATA_PATH]
+    .filter((p): p is string => !!p);
+
+  for (const filePath of candidates) {
+    try {
+      const txt = await fsp.readFile(filePath, "utf8");
+      const buildings = parseBuildings(JSON.parse(txt));
+      if (buildings.length > 0) {
+        console.log(`🏢 Loaded ${buildings.length} buildings from ${path.basename(filePath)}`);
+        return buildBuildingIndex(buildings, path.basename(filePath));
+      }
+    } catch (error) {
+      // Try next candidate
+    }
+  }
+
+  return buildBuildingIndex([], "none");
+}
+
+/**
+ * Load (once) and return the building index
+ */
+export function getBuildingIndex(): Promise<BuildingIndex> {
+  if (!indexPromise) {
+    indexPromise = loadBuildingIndex();
+  }
+  return indexPromise;
+}
+
+function toLocalMeters(lat: number, lon: number, originLat: number, originLon: number): [number, number] {
+  const metersPerDegLon = METERS_PER_DEG_LON_EQUATOR * Math.cos((originLat * Math.PI) / 180);
+  return [(lon - originLon) * metersPerDegLon, (lat - originLat) * METERS_PER_DEG_LAT];
+}
+
+function pointInRing(x: number, y: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Distance along the ray (origin, direction) to the first edge of the ring,
+ * or null when the ray misses it
+ */
+function rayRingDistance(dirX: number, dirY: number, ring: [number, number][]): number | null {
+  let nearest: number | null = null;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [px, py] = ring[i];
+    const [qx, qy] = ring[i + 1];
+    const ex = qx - px;
+    const ey = qy - py;
+
+    const denom = dirX * ey - dirY * ex;
+    if (Math.abs(denom) < 1e-12) continue; // parallel
+
+    const t = (px * ey - py * ex) / denom; // along the ray
+    const s = (px * dirY - py * dirX) / denom; // along the edge
+    if (t >= 0 && s >= 0 && s <= 1 && (nearest === null || t < nearest)) {
+      nearest = t;
+    }
+  }
+
+  return nearest;
+}
+
+function candidateBuildings(index: BuildingIndex, south: number, west: number, north: number, east: number): Building[] {
+  const seen = new Set<number>();
+  const result: Building[] = [];
+
+  for (let latCell = Math.floor(south / CELL_SIZE); latCell <= Math.floor(north / CELL_SIZE); latCell++) {
+    for (let lonCell = Math.floor(west / CELL_SIZE); lonCell <= Math.floor(east / CELL_SIZE); lonCell++) {
+      const bucket = index.cells.get(cellKey(latCell, lonCell));
+      if (!bucket) continue;
+      for (const i of bucket) {
+        if (!seen.has(i)) {
+          seen.add(i);
+          result.push(index.buildings[i]);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Cast a ray from (lat, lon) toward the sun and return the first building
+ * tall enough to block it.
+ *
+ * sunAzimuth / sunElevation follow suncalc (radians, 0 = south, π/2 = west).
+ */
+export function castSunRay(
+  index: BuildingIndex,
+  lat: number,
+  lon: number,
+  sunAzimuth: number,
+  sunElevation: number
+): BuildingShadowResult["blocker"] | null {
+  if (sunElevation <= 0) return null;
+
+  // Direction toward the sun in local east/north meters
+  const dirX = -Math.sin(sunAzimuth);
+  const dirY = -Math.cos(sunAzimuth);
+  const tanElevation = Math.tan(sunElevation);
+
+  // Bounding box of the ray segment, in degrees
+  const metersPerDegLon = METERS_PER_DEG_LON_EQUATOR * Math.cos((lat * Math.PI) / 180);
+  const endLat = lat + (dirY * MAX_RAY_DISTANCE) / METERS_PER_DEG_LAT;
+  const endLon = lon + (dirX * MAX_RAY_DISTANCE) / metersPerDegLon;
+
+  const candidates = candidateBuildings(
+    index,
+    Math.min(lat, endLat),
+    Math.min(lon, endLon),
+    Math.max(lat, endLat),
+    Math.max(lon, endLon)
+  );
+
+  let blocker: BuildingShadowResult["blocker"] | null = null;
+
+  for (const building of candidates) {
+    const ring = building.polygon.map(([pLon, pLat]) => toLocalMeters(pLat, pLon, lat, lon));
+
+    // The café sits inside its own building; its facade is handled by orientation
+    if (pointInRing(0, 0, ring)) continue;
+
+    const distance = rayRingDistance(dirX, dirY, ring);
+    if (distance === null || distance > MAX_RAY_DISTANCE) continue;
+
+    if (building.height - OBSERVER_HEIGHT > distance * tanElevation) {
+      if (!blocker || distance < blocker.distance) {
+        blocker = {
+          id: building.id,
+          height: building.height,
+          distance,
+          heightSource: building.heightSource,
+        };
+      }
+    }
+  }
+
+  return blocker;
+}
+
+/**
+ * Check if building footprints are loaded around a given location
+ */
+export async function isBuildingDataAvailable(lat: number, lon: number): Promise<boolean> {
+  const index = await getBuildingIndex();
+  if (!index.bounds) return false;
+  return lat >= index.bounds.south &&
+         lat <= index.bounds.north &&
+         lon >= index.bounds.west &&
+         lon <= index.bounds.east;
+}
+
+/**
+ * Get shadow value from OSM building footprints for a specific location and sun position
+ */
+export async function getBuildingShadowValue(
+  lat: number,
+  lon: number,
+  sunAzimuth: number,
+  sunElevation: number
+): Promise<BuildingShadowResult> {
+  const index = await getBuildingIndex();
+
+  if (!(await isBuildingDataAvailable(lat, lon))) {
+    return {
+      shadowValue: 0.5, // neutral
+      precision: 'heuristic',
+      confidence: 0.3,
+      source: 'no-building-coverage'
+    };
+  }
+
+  const blocker = castSunRay(index, lat, lon, sunAzimuth, sunElevation);
+
+  if (blocker) {
+    return {
+      shadowValue: 0,
+      precision: 'buildings',
+      // Estimated heights make the verdict less certain
+      confidence: blocker.heightSource === 'default' ? 0.6 : 0.85,
+      source: `osm-buildings:${index.source}`,
+      blocker,
+    };
+  }
+
+  return {
+    shadowValue: 1,
+    precision: 'buildings',
+    confidence: 0.8,
+    source: `osm-buildings:${index.source}`,
+  };
+}
@@ -192,23 +192,42 @@ export function alignToHour(date: Date): Date {
 }
 
 // Cache key builders
-export function buildCafeKey(query?: string): string {
+export function buildCafeKey(category: string = 'cafe', query?: string): string {
   const params = new URLSearchParams();
+  params.set('category', category);
   if (query) params.set('q', query);
   return `cafes:${params.toString()}`;
 }
 
 export function buildSunGeometryKey(lat: number, lon: number, date: Date): string {
-  const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
-  return `sungeom:${lat.toFixed(4)}:${lon.toFixed(4)}:${dateStr}`;
+  // ~1km cells: the sun's position barely changes across Paris, so cafés share entries
+  const minuteStr = date.toISOString().slice(0, 16); // YYYY-MM-DDTHH:mm
+  return `sungeom:${lat.toFixed(2)}:${lon.toFixed(2)}:${minuteStr}`;
 }
 
-export function buildWeatherKey(lat: number, lon: number, hourBucket: Date): string {
+export function buildWeatherKey(lat: number, lon: number, hourBucket: Date, horizonHours: number = 12): string {
   const hourStr = hourBucket.toISOString().slice(0, 13); // YYYY-MM-DDTHH
-  return `weather:${lat.toFixed(4)}:${lon.toFixed(4)}:${hourStr}`;
+  // v3 entries carry DNI/diffuse radiation and temperature, wind and humidity
+  return `weather:v3:${lat.toFixed(4)}:${lon.toFixed(4)}:${horizonHours}h:${hourStr}`;
 }
 
-export function buildSunScoreKey(precision: string, hours: number, hourBucket: Date): string {
+export function buildSunScoreKey(
+  precision: string,
+  hours: number,
+  hourBucket: Date,
+  stepMinutes: number = 60,
+  days: number = 0,
+  windowThreshold: number = 0.6,
+  scoreModel: string = 'factors',
+  categories: string = 'cafe',
+  arrondissements: string = '',
+  bbox: string = ''
+): string {
   const hourStr = hourBucket.toISOString().slice(0, 13);
-  return `sunscore:${precision}:${hours}:${hourStr}`;
+  // Multi-day forecasts get their own key space
+  const span = days > 0 ? `${days}d` : `${hours}`;
+  const model = scoreModel === 'factors' ? '' : `:${scoreModel}`;
+  const areas = arrondissements ? `:a${arrondissements}` : '';
+  const box = bbox ? `:b${bbox}` : '';
+  return `sunscore:${categories}${areas}${box}:${precision}${model}:${span}:${stepMinutes}m:t${windowThreshold.toFixed(2)}:${hourStr}`;
 }
@@ -0,0 +1,99 @@
+/**
+ * Café change log
+ *
+ * Diffs successive café datasets into added, removed, renamed and retagged
+ * entries and keeps them in a persistent store, so clients can ask what
+ * changed since a given time.
+ */
+import { createJsonStore } from "@/app/lib/json-store";
+
+type SyncedCafe = {
+  id: string;
+  name: string | null;
+  tags: Record<string, any>;
+  category: string | null;
+};
+
+export type CafeChangeType = 'added' | 'removed' | 'renamed' | 'retagged';
+
+export type TagChange = {
+  key: string;
+  from: string | null; // null = tag added
+  to: string | null; // null = tag removed
+};
+
+export type CafeChange = {
+  at: string; // ISO time of the sync that saw the change
+  type: CafeChangeType;
+  id: string;
+  name: string | null;
+  category: string | null;
+  previousName?: string | null; // renamed
+  tags?: TagChange[]; // retagged
+};
+
+// Oldest entries of a category are dropped beyond this
+const MAX_LOG_ENTRIES = 2000;
+
+const store = createJsonStore<CafeChange>("CAFE_CHANGES_PATH", "cafe-changes.json");
+
+function tagChanges(before: Record<string, any> = {}, after: Record<string, any> = {}): TagChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return keys
+    .filter(key => key !== "name" && before[key] !== after[key])
+    .map(key => ({ key, from: before[key] ?? null, to: after[key] ?? null }));
+}
+
+/**
+ * Changes between two datasets. A place that was both renamed and retagged
+ * yields one entry of each.
+ */
+export function diffCafes(previous: SyncedCafe[], next: SyncedCafe[], at: string): CafeChange[] {
+  const before = new Map(previous.map(cafe => [cafe.id, cafe]));
+  const after = new Map(next.map(cafe => [cafe.id, cafe]));
+  const changes: CafeChange[] = [];
+
+  for (const cafe of next) {
+    const old = before.get(cafe.id);
+    const entry = { at, id: cafe.id, name: cafe.name, category: cafe.category };
+
+    if (!old) {
+      changes.push({ ...entry, type: 'added' });
+      continue;
+    }
+    if (old.name !== cafe.name) {
+      changes.push({ ...entry, type: 'renamed', previousName: old.name });
+    }
+    const tags = tagChanges(old.tags, cafe.tags);
+    if (tags.length > 0) {
+      changes.push({ ...entry, type: 'retagged', tags });
+    }
+  }
+
+  for (const cafe of previous) {
+    if (!after.has(cafe.id)) {
+      changes.push({ at, type: 'removed', id: cafe.id, name: cafe.name, category: cafe.category });
+    }
+  }
+
+  return changes;
+}
+
+export async function getCafeChanges(category: string): Promise<CafeChange[]> {
+  return (await store.read()).filter(change => change.category === category);
+}
+
+/**
+ * Append changes to a category's log
+ */
+export async function recordCafeChanges(category: string, changes: CafeChange[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  // Entries are filed under the category whose dataset produced them
+  const entries = changes.map(change => ({ ...change, category }));
+  await store.update(items => {
+    const log = [...items.filter(change => change.category === category), ...entries].slice(-MAX_LOG_ENTRIES);
+    const others = items.filter(change => change.category !== category);
+    items.splice(0, items.length, ...others, ...log);
+  });
+}
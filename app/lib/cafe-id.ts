@@ -0,0 +1,12 @@
+/**
+ * Café ids in URLs
+ *
+ * Ids are OSM `type/id` pairs, so per-café routes nest them as two path
+ * segments: `/api/cafes/node/123/...` is café `node/123`.
+ */
+
+export type CafeIdParams = { type: string; osmId: string };
+
+export function cafeIdFromParams({ type, osmId }: CafeIdParams): string | null {
+  return ["node", "way", "relation"].includes(type) && /^\d+$/.test(osmId) ? `${type}/${osmId}` : null;
+}
@@ -0,0 +1,228 @@
+/**
+ * Server-side café queries
+ *
+ * `/api/cafes` narrows each cached category with a grid index (built once per
+ * cached dataset), then applies tag filters, text search, distance sorting
+ * and cursor pagination.
+ */
+import crypto from "crypto";
+import { calculateDistance } from "@/app/lib/utils";
+import { nameKey } from "@/app/lib/normalize";
+
+type Point = { id: string; lat: number; lon: number };
+
+// south, west, north, east, as in Overpass queries
+export type BBox = [number, number, number, number];
+
+// Tags clients can filter on; values are comma-separated alternatives
+export const QUERY_TAGS = ['outdoor_seating', 'wheelchair', 'internet_access', 'diet:vegan', 'diet:vegetarian'];
+
+export type CafeQuery = {
+  bbox: BBox | null;
+  near: { lat: number; lon: number; radius: number } | null; // radius in meters
+  tags: Record<string, string[]>;
+  q: string | null;
+  limit: number | null; // null = everything, as before pagination existed
+  cursor: Cursor | null;
+};
+
+type Cursor = { version: string; offset: number; limit: number };
+
+const CELL_SIZE = 0.005; // degrees, ~550 m of latitude
+const METERS_PER_DEGREE = 111320;
+
+const DEFAULT_RADIUS = 1000; // meters
+const MAX_RADIUS = 10000;
+const MAX_LIMIT = 500;
+
+export type GridIndex<T extends Point> = {
+  items: T[];
+  cells: Map<string, number[]>;
+};
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+const cellOf = (value: number) => Math.floor(value / CELL_SIZE);
+
+export function buildGridIndex<T extends Point>(items: T[]): GridIndex<T> {
+  const cells = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const key = cellKey(cellOf(item.lat), cellOf(item.lon));
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+  return { items, cells };
+}
+
+/**
+ * Items inside a bounding box, in dataset order
+ */
+export function searchGrid<T extends Point>(index: GridIndex<T>, [south, west, north, east]: BBox): T[] {
+  const rows = cellOf(north) - cellOf(south) + 1;
+  const cols = cellOf(east) - cellOf(west) + 1;
+  // Boxes wider than the data (low map zooms) would walk millions of empty cells
+  if (rows * cols > index.cells.size) {
+    return index.items.filter(({ lat, lon }) => lat >= south && lat <= north && lon >= west && lon <= east);
+  }
+
+  const hits: number[] = [];
+  for (let row = cellOf(south); row <= cellOf(north); row++) {
+    for (let col = cellOf(west); col <= cellOf(east); col++) {
+      for (const i of index.cells.get(cellKey(row, col)) ?? []) {
+        const { lat, lon } = index.items[i];
+        if (lat >= south && lat <= north && lon >= west && lon <= east) hits.push(i);
+      }
+    }
+  }
+  return hits.sort((a, b) => a - b).map(i => index.items[i]);
+}
+
+// One index per category, rebuilt when the cached dataset changes
+const indexes = new Map<string, { version: string; index: GridIndex<any> }>();
+
+export function getGridIndex<T extends Point>(name: string, version: string, items: T[]): GridIndex<T> {
+  const existing = indexes.get(name);
+  if (existing && existing.version === version) return existing.index;
+
+  const index = buildGridIndex(items);
+  indexes.set(name, { version, index });
+  console.log(`🧭 Indexed ${items.length} ${name} places`);
+  return index;
+}
+
+/**
+ * Box covering a `near` circle, for the grid lookup before the exact distance check
+ */
+export function nearBBox(near: NonNullable<CafeQuery['near']>): BBox {
+  const dLat = near.radius / METERS_PER_DEGREE;
+  const dLon = near.radius / (METERS_PER_DEGREE * Math.cos((near.lat * Math.PI) / 180));
+  return [near.lat - dLat, near.lon - dLon, near.lat + dLat, near.lon + dLon];
+}
+
+/**
+ * Box the spatial parameters restrict results to, null when unrestricted
+ */
+export function queryBBox(query: CafeQuery): BBox | null {
+  if (!query.near) return query.bbox;
+  const circle = nearBBox(query.near);
+  if (!query.bbox) return circle;
+  return [
+    Math.max(query.bbox[0], circle[0]),
+    Math.max(query.bbox[1], circle[1]),
+    Math.min(query.bbox[2], circle[2]),
+    Math.min(query.bbox[3], circle[3]),
+  ];
+}
+
+/**
+ * Short id for a combination of cached datasets, carried in cursors
+ */
+export function datasetVersion(parts: string[]): string {
+  return crypto.createHash("sha1").update(parts.join("|")).digest("base64url").slice(0, 12);
+}
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify({ v: cursor.version, o: cursor.offset, l: cursor.limit })).toString("base64url");
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const { v, o, l } = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const valid = typeof v === "string" && Number.isInteger(o) && o >= 0 && Number.isInteger(l) && l > 0 && l <= MAX_LIMIT;
+    return valid ? { version: v, offset: o, limit: l } : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseNumbers(value: string, count: number): number[] | null {
+  const numbers = value.split(",").map(v => parseFloat(v.trim()));
+  return numbers.length === count && numbers.every(Number.isFinite) ? numbers : null;
+}
+
+/**
+ * Read the query parameters. Returns the query, or an error code for a 400.
+ */
+export function parseCafeQuery(searchParams: URLSearchParams | null): CafeQuery | string {
+  const query: CafeQuery = { bbox: null, near: null, tags: {}, q: null, limit: null, cursor: null };
+  if (!searchParams) return query;
+
+  const bboxParam = searchParams.get('bbox');
+  if (bboxParam) {
+    const bbox = parseNumbers(bboxParam, 4);
+    if (!bbox || bbox[0] > bbox[2] || bbox[1] > bbox[3]) return "invalid_bbox";
+    query.bbox = bbox as BBox;
+  }
+
+  const nearParam = searchParams.get('near');
+  if (nearParam) {
+    const near = parseNumbers(nearParam, 2);
+    if (!near || Math.abs(near[0]) > 90 || Math.abs(near[1]) > 180) return "invalid_near";
+    const radius = parseFloat(searchParams.get('radius') ?? `${DEFAULT_RADIUS}`);
+    if (!Number.isFinite(radius) || radius <= 0) return "invalid_radius";
+    query.near = { lat: near[0], lon: near[1], radius: Math.min(radius, MAX_RADIUS) };
+  }
+
+  for (const tag of QUERY_TAGS) {
+    const values = searchParams.get(tag)?.split(",").map(v => v.trim()).filter(Boolean);
+    if (values?.length) query.tags[tag] = values;
+  }
+
+  const q = nameKey(searchParams.get('q') ?? "");
+  if (q) query.q = q;
+
+  const limitParam = searchParams.get('limit');
+  if (limitParam) {
+    const limit = parseInt(limitParam);
+    if (!(limit > 0)) return "invalid_limit";
+    query.limit = Math.min(limit, MAX_LIMIT);
+  }
+
+  const cursorParam = searchParams.get('cursor');
+  if (cursorParam) {
+    query.cursor = decodeCursor(cursorParam);
+    if (!query.cursor) return "invalid_cursor";
+    query.limit ??= query.cursor.limit; // later pages keep the first page's size
+  }
+
+  return query;
+}
+
+/**
+ * Tag filters and text search (name, brand and street, accent-insensitive)
+ */
+export function matchesQuery(cafe: { name: string | null; tags: Record<string, any> }, query: CafeQuery): boolean {
+  for (const [tag, values] of Object.entries(query.tags)) {
+    if (!values.includes(cafe.tags?.[tag])) return false;
+  }
+  if (query.q) {
+    const text = nameKey([cafe.name, cafe.tags?.brand, cafe.tags?.["addr:street"]].filter(Boolean).join(" "));
+    if (!text.includes(query.q)) return false;
+  }
+  return true;
+}
+
+/**
+ * Keep places within the `near` radius, nearest first, with `distance` in meters
+ */
+export function sortByDistance<T extends Point>(cafes: T[], near: NonNullable<CafeQuery['near']>): (T & { distance: number })[] {
+  return cafes
+    .map(cafe => ({ ...cafe, distance: Math.round(calculateDistance(near.lat, near.lon, cafe.lat, cafe.lon) * 1000) }))
+    .filter(cafe => cafe.distance <= near.radius)
+    .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+}
+
+/**
+ * One page of results. `version` identifies the dataset; a cursor from another
+ * version is rejected so pages never skip or repeat places.
+ */
+export function paginate<T>(items: T[], query: CafeQuery, version: string): { page: T[]; nextCursor: string | null } | null {
+  if (query.cursor && query.cursor.version !== version) return null;
+  if (query.limit === null) return { page: items, nextCursor: null };
+
+  const offset = query.cursor?.offset ?? 0;
+  const end = offset + query.limit;
+  return {
+    page: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor({ version, offset: end, limit: query.limit }) : null,
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Café data sources
+ *
+ * `/api/cafes` reads places, nearby streets and seating areas through a
+ * CafeSource, picked with `CAFE_SOURCE`:
+ * - `overpass` (default): live Overpass API
+ * - `extract`: offline dataset built from an OSM extract with
+ *   `npm run import-extract` (`CAFE_EXTRACT_PATH`, defaults to `public/osm/cafes.json`)
+ * - `seed`: the 12 cafés in `public/cafes.seed.json`
+ *
+ * Every source returns Overpass `out tags geom` elements so parsing stays in
+ * one place.
+ */
+import fsp from "fs/promises";
+import path from "path";
+import { getCategory } from "@/app/lib/categories";
+import { parseStreets, MAX_STREET_DISTANCE } from "@/app/lib/orientation";
+import { parseTerraces, TERRACE_LINK_DISTANCE } from "@/app/lib/terraces";
+import type { CategoryId } from "@/app/lib/categories";
+import type { StreetWay } from "@/app/lib/orientation";
+import type { TerraceArea } from "@/app/lib/terraces";
+
+export type CafeSourceName = 'overpass' | 'extract' | 'seed';
+
+export interface CafeSource {
+  name: CafeSourceName;
+  // Places in a category
+  fetchPlaces(category: CategoryId): Promise<any[]>;
+  // Ids of every place in a category plus those edited since `since`, for
+  // sources that know edit times
+  fetchEdits?(category: CategoryId, since: string): Promise<{ ids: Set<string>; elements: any[] }>;
+  // Streets a terrace can face, near places edited since `newer` when given
+  fetchStreets(category: CategoryId, newer?: string): Promise<StreetWay[]>;
+  // leisure=outdoor_seating areas near places edited since `newer` when given
+  fetchTerraces(category: CategoryId, newer?: string): Promise<TerraceArea[]>;
+}
+
+export const PARIS_BBOX = "48.8156,2.2242,48.9022,2.4699";
+
+// Streets a terrace can face (no footways, cycleways or service alleys)
+export const TERRACE_STREET_TYPES = "primary|secondary|tertiary|residential|unclassified|living_street|pedestrian";
+
+const DEFAULT_EXTRACT_PATH = path.join(process.cwd(), "public", "osm", "cafes.json");
+const SEED_PATH = path.join(process.cwd(), "public", "cafes.seed.json");
+
+const isTerraceStreet = (el: any) => new RegExp(`^(${TERRACE_STREET_TYPES})$`).test(el.tags?.highway ?? "");
+
+async function postOverpass(query: string, timeoutMs = 25000): Promise<any> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs); // Reduced for Vercel
+
+  try {
+    // Try primary Overpass API, fallback to alternative
+    let res;
+    try {
+      res = await fetch("https://overpass-api.de/api/interpreter", {
+        method: "POST",
+        headers: {
+          "content-type": "application/x-www-form-urlencoded",
+          "User-Agent": "KinParisCoffeeShades/0.1",
+        },
+        body: new URLSearchParams({ data: query }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      console.warn("Primary Overpass API failed, trying fallback:", error);
+      res = await fetch("https://lz4.overpass-api.de/api/interpreter", {
+        method: "POST",
+        headers: {
+          "content-type": "application/x-www-form-urlencoded",
+          "User-Agent": "KinParisCoffeeShades/0.1",
+        },
+        body: new URLSearchParams({ data: query }),
+        signal: controller.signal,
+      });
+    }
+    clearTimeout(timeout);
+
+    if (!res.ok) throw new Error(`Overpass ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Overpass statement selecting a category's places, optionally only those
+ * edited since `newer` (ISO time)
+ */
+function categorySelector(categoryId: CategoryId, newer?: string): string {
+  const newerFilter = newer ? `(newer:"${newer.replace(/\.\d+Z$/, "Z")}")` : "";
+  return `nwr${getCategory(categoryId).overpassFilter}${newerFilter}(${PARIS_BBOX})`;
+}
+
+export const overpassSource: CafeSource = {
+  name: 'overpass',
+
+  // Places mapped as points, building outlines or multipolygons
+  async fetchPlaces(category) {
+    const query = `
+[out:json][timeout:30];
+${categorySelector(category)};
+out tags geom;
+`;
+
+    const json = await postOverpass(query);
+    return json?.elements ?? [];
+  },
+
+  // Both come back in one response: the id-only output carries no tags
+  async fetchEdits(category, since) {
+    const query = `
+[out:json][timeout:30];
+${categorySelector(category)}->.all;
+.all out ids;
+${categorySelector(category, since)};
+out tags geom;
+`;
+
+    const json = await postOverpass(query);
+    const elements: any[] = json?.elements ?? [];
+
+    return {
+      ids: new Set(elements.filter(el => !el.tags).map(el => `${el.type}/${el.id}`)),
+      elements: elements.filter(el => el.tags),
+    };
+  },
+
+  // Streets within reach of a place, with inline geometry for bearing calculation
+  async fetchStreets(category, newer) {
+    const query = `
+[out:json][timeout:30];
+${categorySelector(category, newer)}->.cafes;
+way(around.cafes:${MAX_STREET_DISTANCE})["highway"~"^(${TERRACE_STREET_TYPES})$"];
+out tags geom;
+`;
+
+    const json = await postOverpass(query);
+    return parseStreets(json?.elements ?? []);
+  },
+
+  // Seating areas mapped next to a place, as polygons
+  async fetchTerraces(category, newer) {
+    const query = `
+[out:json][timeout:30];
+${categorySelector(category, newer)}->.cafes;
+nwr(around.cafes:${TERRACE_LINK_DISTANCE})["leisure"="outdoor_seating"];
+out tags geom;
+`;
+
+    const json = await postOverpass(query);
+    return parseTerraces(json?.elements ?? []);
+  },
+};
+
+/**
+ * Offline dataset written by `scripts/import-osm-extract.js`. Streets and
+ * seating areas cover the whole extract; orientation and terrace linking keep
+ * only those near a place.
+ */
+export function createExtractSource(filePath: string = process.env.CAFE_EXTRACT_PATH || DEFAULT_EXTRACT_PATH): CafeSource {
+  let elementsPromise: Promise<any[]> | null = null;
+
+  const loadElements = () => {
+    if (!elementsPromise) {
+      elementsPromise = fsp.readFile(filePath, "utf8").then(txt => {
+        const elements: any[] = JSON.parse(txt).elements ?? [];
+        console.log(`🗺️ Loaded ${elements.length} elements from ${path.basename(filePath)}`);
+        return elements;
+      });
+      // Let a missing file be retried once it has been imported
+      elementsPromise.catch(() => { elementsPromise = null; });
+    }
+    return elementsPromise;
+  };
+
+  return {
+    name: 'extract',
+
+    async fetchPlaces(category) {
+      const { matches } = getCategory(category);
+      return (await loadElements()).filter(el => el.tags && matches(el.tags));
+    },
+
+    async fetchStreets() {
+      return parseStreets((await loadElements()).filter(el => el.type === "way" && isTerraceStreet(el)));
+    },
+
+    async fetchTerraces() {
+      return parseTerraces(await loadElements());
+    },
+  };
+}
+
+/**
+ * The bundled seed cafés, as nodes. No streets or terraces.
+ */
+export const seedSource: CafeSource = {
+  name: 'seed',
+
+  async fetchPlaces(category) {
+    const { matches } = getCategory(category);
+    const seed = JSON.parse(await fsp.readFile(SEED_PATH, "utf8"));
+    return (seed.cafes ?? [])
+      .filter((cafe: any) => matches(cafe.tags ?? {}))
+      .map((cafe: any) => {
+        const [type, id] = String(cafe.id).split("/");
+        return { type, id: Number(id), lat: cafe.lat, lon: cafe.lon, tags: cafe.tags };
+      });
+  },
+
+  async fetchStreets() {
+    return [];
+  },
+
+  async fetchTerraces() {
+    return [];
+  },
+};
+
+let configuredSource: CafeSource | null = null;
+
+/**
+ * The source named by `CAFE_SOURCE`, Overpass when unset or unknown
+ */
+export function getCafeSource(): CafeSource {
+  if (!configuredSource) {
+    const name = process.env.CAFE_SOURCE;
+    configuredSource = name === 'extract' ? createExtractSource() : name === 'seed' ? seedSource : overpassSource;
+  }
+  return configuredSource;
+}
@@ -0,0 +1,82 @@
+/**
+ * POI categories
+ *
+ * Everything with a terrace where you might sit in the sun. Each category maps
+ * to an Overpass tag filter and is fetched and cached on its own.
+ */
+
+export type CategoryId = 'cafe' | 'bar' | 'pub' | 'brasserie' | 'restaurant';
+
+export type PoiCategory = {
+  id: CategoryId;
+  label: string;
+  overpassFilter: string; // tag filters appended to `nwr`
+  matches: (tags: Record<string, any>) => boolean;
+};
+
+const hasTerrace = (tags: Record<string, any>) => tags.outdoor_seating === "yes";
+const isBrasserie = (tags: Record<string, any>) => /brasserie/i.test(tags.cuisine ?? "");
+
+// Most specific first: a restaurant tagged cuisine=brasserie is a brasserie
+export const CATEGORIES: PoiCategory[] = [
+  {
+    id: 'cafe',
+    label: 'Cafés',
+    overpassFilter: '["amenity"="cafe"]',
+    matches: tags => tags.amenity === "cafe",
+  },
+  {
+    id: 'brasserie',
+    label: 'Brasseries',
+    overpassFilter: '["amenity"~"^(restaurant|bar)$"]["cuisine"~"brasserie"]["outdoor_seating"="yes"]',
+    matches: tags => (tags.amenity === "restaurant" || tags.amenity === "bar") && isBrasserie(tags) && hasTerrace(tags),
+  },
+  {
+    id: 'bar',
+    label: 'Bars',
+    overpassFilter: '["amenity"="bar"]["outdoor_seating"="yes"]',
+    matches: tags => tags.amenity === "bar" && hasTerrace(tags),
+  },
+  {
+    id: 'pub',
+    label: 'Pubs',
+    overpassFilter: '["amenity"="pub"]["outdoor_seating"="yes"]',
+    matches: tags => tags.amenity === "pub" && hasTerrace(tags),
+  },
+  {
+    id: 'restaurant',
+    label: 'Restaurants',
+    overpassFilter: '["amenity"="restaurant"]["outdoor_seating"="yes"]',
+    matches: tags => tags.amenity === "restaurant" && hasTerrace(tags),
+  },
+];
+
+export const DEFAULT_CATEGORIES: CategoryId[] = ['cafe'];
+
+/**
+ * Parse a `categories=cafe,bar` parameter. Unknown ids are ignored; an empty
+ * or missing value means the defaults. Output follows CATEGORIES order.
+ */
+export function parseCategories(param: string | null | undefined): CategoryId[] {
+  const requested = new Set((param ?? "").split(",").map(id => id.trim().toLowerCase()));
+  const categories = CATEGORIES.filter(category => requested.has(category.id)).map(category => category.id);
+  return categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+}
+
+/**
+ * A single `category=` value, null when missing or unknown
+ */
+export function parseCategory(param: string | null | undefined): CategoryId | null {
+  return CATEGORIES.find(category => category.id === param)?.id ?? null;
+}
+
+export function getCategory(id: CategoryId): PoiCategory {
+  return CATEGORIES.find(category => category.id === id)!;
+}
+
+/**
+ * Most specific category an OSM feature belongs to, if any
+ */
+export function categorize(tags: Record<string, any> = {}): CategoryId | null {
+  return CATEGORIES.find(category => category.matches(tags))?.id ?? null;
+}
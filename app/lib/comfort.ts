@@ -0,0 +1,59 @@
+/**
+ * Terrace thermal comfort
+ *
+ * Steadman's apparent temperature with solar load (the outdoor formula used by
+ * the Australian Bureau of Meteorology), fed with the shortwave irradiance
+ * reaching a seated person, then mapped to a 0-1 comfort score.
+ */
+
+// Body surface absorptivity for shortwave radiation
+const BODY_ABSORPTIVITY = 0.7;
+
+// Fraction of the terrace-plane irradiance a seated body keeps, net of
+// projected area and longwave losses
+const BODY_EXPOSED_FRACTION = 0.25;
+
+// Street canyons roughly halve the 10m wind speed at terrace height
+const TERRACE_WIND_FACTOR = 0.5;
+
+// Apparent temperatures inside this band count as fully comfortable
+const COMFORT_BAND: [number, number] = [18, 26]; // °C
+const COMFORT_LIMITS: [number, number] = [8, 34]; // °C, comfort reaches 0
+
+export type ComfortLabel = 'cold' | 'cool' | 'comfortable' | 'warm' | 'hot';
+
+/**
+ * Apparent temperature in °C for a person on the terrace
+ */
+export function apparentTemperature(
+  temperature: number, // °C
+  windSpeed: number, // m/s at 10m
+  humidity: number, // %
+  shortwave: number // W/m² reaching the terrace plane
+): number {
+  const vapourPressure = (humidity / 100) * 6.105 * Math.exp((17.27 * temperature) / (237.7 + temperature)); // hPa
+  const wind = Math.max(0, windSpeed) * TERRACE_WIND_FACTOR;
+  const absorbed = BODY_ABSORPTIVITY * BODY_EXPOSED_FRACTION * Math.max(0, shortwave);
+
+  return temperature + 0.348 * vapourPressure - 0.7 * wind + (0.7 * absorbed) / (wind + 10) - 4.25;
+}
+
+/**
+ * 1 inside the comfort band, fading linearly to 0 at the cold and hot limits
+ */
+export function comfortFromApparent(apparent: number): number {
+  const [low, high] = COMFORT_BAND;
+  const [coldLimit, hotLimit] = COMFORT_LIMITS;
+
+  if (apparent < low) return Math.max(0, (apparent - coldLimit) / (low - coldLimit));
+  if (apparent > high) return Math.max(0, (hotLimit - apparent) / (hotLimit - high));
+  return 1;
+}
+
+export function comfortLabel(apparent: number): ComfortLabel {
+  if (apparent < COMFORT_LIMITS[0]) return 'cold';
+  if (apparent < COMFORT_BAND[0]) return 'cool';
+  if (apparent <= COMFORT_BAND[1]) return 'comfortable';
+  if (apparent <= COMFORT_LIMITS[1]) return 'warm';
+  return 'hot';
+}
@@ -0,0 +1,163 @@
+/**
+ * Community corrections
+ *
+ * Users submit a terrace bearing, outdoor seating availability and a note for
+ * a café. Corrections start pending and only apply once a moderator approves
+ * them; the latest approved value of each field wins over OSM data and the
+ * computed orientation.
+ *
+ * Stored in `data/corrections.json` (`CORRECTIONS_PATH`).
+ */
+import crypto from "crypto";
+import { createJsonStore } from "@/app/lib/json-store";
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export type Correction = {
+  id: string;
+  cafeId: string;
+  bearing?: number; // degrees, compass direction the terrace faces
+  outdoorSeating?: boolean;
+  note?: string;
+  author?: string;
+  status: CorrectionStatus;
+  submittedAt: string;
+  reviewedAt?: string;
+};
+
+export type CorrectionInput = Pick<Correction, 'bearing' | 'outdoorSeating' | 'note' | 'author'>;
+
+// What approved corrections add to a café
+export type CafeCorrection = {
+  bearing?: number;
+  outdoorSeating?: boolean;
+  note?: string;
+  correctedAt: string; // latest approval
+};
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_AUTHOR_LENGTH = 80;
+
+const store = createJsonStore<Correction>("CORRECTIONS_PATH", "corrections.json");
+
+/**
+ * Validate a submission body. Returns the cleaned input, or an error message.
+ */
+export function parseCorrectionInput(body: any): CorrectionInput | string {
+  if (!body || typeof body !== "object") return "body must be a JSON object";
+
+  const input: CorrectionInput = {};
+  if (body.bearing !== undefined) {
+    const bearing = Number(body.bearing);
+    if (!Number.isFinite(bearing) || bearing < 0 || bearing >= 360) return "bearing must be a number of degrees in [0, 360)";
+    input.bearing = Math.round(bearing);
+  }
+  if (body.outdoorSeating !== undefined) {
+    if (typeof body.outdoorSeating !== "boolean") return "outdoorSeating must be true or false";
+    input.outdoorSeating = body.outdoorSeating;
+  }
+  if (body.note !== undefined) {
+    if (typeof body.note !== "string") return "note must be a string";
+    const note = body.note.trim();
+    if (note.length > MAX_NOTE_LENGTH) return `note must be at most ${MAX_NOTE_LENGTH} characters`;
+    if (note) input.note = note;
+  }
+  if (typeof body.author === "string" && body.author.trim()) {
+    input.author = body.author.trim().slice(0, MAX_AUTHOR_LENGTH);
+  }
+
+  if (input.bearing === undefined && input.outdoorSeating === undefined && input.note === undefined) {
+    return "provide at least one of bearing, outdoorSeating or note";
+  }
+  return input;
+}
+
+export function submitCorrection(cafeId: string, input: CorrectionInput): Promise<Correction> {
+  const correction: Correction = {
+    id: crypto.randomUUID(),
+    cafeId,
+    ...input,
+    status: 'pending',
+    submittedAt: new Date().toISOString(),
+  };
+  return store.update(corrections => {
+    corrections.push(correction);
+    return correction;
+  });
+}
+
+/**
+ * Approve or reject a correction. Returns null for an unknown id.
+ */
+export function reviewCorrection(id: string, status: Exclude<CorrectionStatus, 'pending'>): Promise<Correction | null> {
+  return store.update(corrections => {
+    const correction = corrections.find(c => c.id === id);
+    if (!correction) return null;
+    correction.status = status;
+    correction.reviewedAt = new Date().toISOString();
+    return correction;
+  });
+}
+
+export async function listCorrections(filter: { cafeId?: string; status?: CorrectionStatus } = {}): Promise<Correction[]> {
+  return (await store.read()).filter(c =>
+    (!filter.cafeId || c.cafeId === filter.cafeId) && (!filter.status || c.status === filter.status)
+  );
+}
+
+/**
+ * Approved corrections folded per café, in review order so later approvals win
+ */
+export async function getApprovedCorrections(): Promise<Map<string, CafeCorrection>> {
+  const approved = (await listCorrections({ status: 'approved' }))
+    .sort((a, b) => (a.reviewedAt ?? "").localeCompare(b.reviewedAt ?? ""));
+
+  const byCafe = new Map<string, CafeCorrection>();
+  for (const c of approved) {
+    const previous = byCafe.get(c.cafeId);
+    byCafe.set(c.cafeId, {
+      ...previous,
+      ...(c.bearing !== undefined && { bearing: c.bearing }),
+      ...(c.outdoorSeating !== undefined && { outdoorSeating: c.outdoorSeating }),
+      ...(c.note !== undefined && { note: c.note }),
+      correctedAt: c.reviewedAt ?? c.submittedAt,
+    });
+  }
+  return byCafe;
+}
+
+/**
+ * Overlay approved corrections: seating availability replaces the
+ * `outdoor_seating` tag, and the café carries the correction for sunscore and
+ * the UI.
+ */
+export function applyCorrections<T extends { id: string; tags: Record<string, any> }>(
+  cafes: T[],
+  corrections: Map<string, CafeCorrection>
+): (T & { correction?: CafeCorrection })[] {
+  if (corrections.size === 0) return cafes;
+
+  return cafes.map(cafe => {
+    const correction = corrections.get(cafe.id);
+    if (!correction) return cafe;
+
+    const tags = correction.outdoorSeating === undefined
+      ? cafe.tags
+      : { ...cafe.tags, outdoor_seating: correction.outdoorSeating ? "yes" : "no" };
+    return { ...cafe, tags, correction };
+  });
+}
+
+/**
+ * Moderation needs `Authorization: Bearer <MODERATION_TOKEN>`; without the
+ * variable set, nobody can moderate.
+ */
+export function isModerator(request: Request): boolean {
+  const token = process.env.MODERATION_TOKEN;
+  if (!token) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
@@ -0,0 +1,97 @@
+/**
+ * OSM footprints for ways and relations
+ *
+ * Turns Overpass `out geom` elements into GeoJSON polygons and a
+ * representative point, so features mapped as outlines can be used wherever a
+ * node's coordinate is expected.
+ */
+import { centerOfMass, centroid, multiPoint, multiPolygon, polygon } from "@turf/turf";
+
+type Position = [number, number]; // [lon, lat]
+
+export type Footprint =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+const isClosed = (ring: Position[]) => ring.length >= 4 && samePosition(ring[0], ring[ring.length - 1]);
+
+/**
+ * Join multipolygon member ways that share end nodes into closed rings.
+ * Segments that never close are dropped.
+ */
+function assembleRings(segments: Position[][]): Position[][] {
+  const remaining = segments.filter(segment => segment.length >= 2).map(segment => [...segment]);
+  const rings: Position[][] = [];
+
+  while (remaining.length > 0) {
+    const ring = remaining.shift()!;
+
+    while (!isClosed(ring)) {
+      const end = ring[ring.length - 1];
+      const nextIndex = remaining.findIndex(s => samePosition(s[0], end) || samePosition(s[s.length - 1], end));
+      if (nextIndex === -1) break;
+
+      const [next] = remaining.splice(nextIndex, 1);
+      const oriented = samePosition(next[0], end) ? next : [...next].reverse();
+      ring.push(...oriented.slice(1));
+    }
+
+    if (isClosed(ring)) rings.push(ring);
+  }
+
+  return rings;
+}
+
+/**
+ * Footprint of an Overpass way or multipolygon relation (outer rings only)
+ */
+export function elementFootprint(el: any): Footprint | null {
+  const toPositions = (geometry: any[]): Position[] => geometry.map((p: any) => [p.lon, p.lat]);
+
+  let rings: Position[][] = [];
+  if (el.type === "way" && Array.isArray(el.geometry)) {
+    const ring = toPositions(el.geometry);
+    rings = isClosed(ring) ? [ring] : [];
+  } else if (el.type === "relation" && Array.isArray(el.members)) {
+    rings = assembleRings(
+      el.members
+        .filter((m: any) => m.role === "outer" && Array.isArray(m.geometry))
+        .map((m: any) => toPositions(m.geometry))
+    );
+  }
+
+  if (rings.length === 0) return null;
+  return rings.length === 1
+    ? { type: 'Polygon', coordinates: [rings[0]] }
+    : { type: 'MultiPolygon', coordinates: rings.map(ring => [ring]) };
+}
+
+/**
+ * Representative [lon, lat] of a footprint (center of mass)
+ */
+export function footprintCenter(footprint: Footprint): Position {
+  const feature = footprint.type === 'Polygon'
+    ? polygon(footprint.coordinates)
+    : multiPolygon(footprint.coordinates);
+  const [lon, lat] = centerOfMass(feature).geometry.coordinates;
+  return [lon, lat];
+}
+
+/**
+ * Representative [lon, lat] of an Overpass element: node coordinate, footprint
+ * center of mass, or the vertex centroid for open or broken geometry
+ */
+export function elementCenter(el: any, footprint: Footprint | null = elementFootprint(el)): Position | null {
+  if (el.type === "node") return [el.lon, el.lat];
+  if (footprint) return footprintCenter(footprint);
+
+  const points: Position[] = el.type === "way" && Array.isArray(el.geometry)
+    ? el.geometry.map((p: any) => [p.lon, p.lat])
+    : (el.members ?? []).flatMap((m: any) => (m.geometry ?? []).map((p: any) => [p.lon, p.lat]));
+  if (points.length === 0) return null;
+
+  const [lon, lat] = centroid(multiPoint(points)).geometry.coordinates;
+  return [lon, lat];
+}
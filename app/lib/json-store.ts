@@ -0,0 +1,64 @@
+/**
+ * Small persistent JSON array stores
+ *
+ * For user-submitted data that must outlive the cache (community corrections,
+ * sun reports). Each store is one file under `data/` (or `/tmp` on Vercel),
+ * overridable with an environment variable. Writes are atomic and serialized
+ * per process; a file that doesn't parse is moved aside, never overwritten.
+ */
+import fsp from "fs/promises";
+import path from "path";
+
+export type JsonStore<T> = {
+  read(): Promise<T[]>;
+  // Apply `update` to the stored items in place and persist them
+  update<R>(update: (items: T[]) => R): Promise<R>;
+};
+
+export function createJsonStore<T>(envVar: string, fileName: string): JsonStore<T> {
+  const defaultPath = process.env.VERCEL_ENV
+    ? path.join("/tmp", fileName)
+    : path.join(process.cwd(), "data", fileName);
+  const storePath = () => process.env[envVar] || defaultPath;
+
+  // Writes queue behind each other so concurrent submissions don't clobber
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<T[]> {
+    const filePath = storePath();
+    let txt: string;
+    try {
+      txt = await fsp.readFile(filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return []; // Nothing stored yet
+      throw error;
+    }
+
+    try {
+      return JSON.parse(txt);
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of writing over it
+      const asidePath = `${filePath}.corrupt-${Date.now()}`;
+      await fsp.rename(filePath, asidePath);
+      console.error(`❌ ${filePath} is not valid JSON, moved to ${asidePath}:`, error);
+      return [];
+    }
+  }
+
+  function update<R>(apply: (items: T[]) => R): Promise<R> {
+    const run = writeQueue.then(async () => {
+      const items = await read();
+      const result = apply(items);
+
+      const filePath = storePath();
+      await fsp.mkdir(path.dirname(filePath), { recursive: true });
+      await fsp.writeFile(`${filePath}.tmp`, JSON.stringify(items, null, 2), "utf8");
+      await fsp.rename(`${filePath}.tmp`, filePath);
+      return result;
+    });
+    writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { read, update };
+}
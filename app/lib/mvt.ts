@@ -0,0 +1,157 @@
+/**
+ * Mapbox Vector Tile encoding for point layers
+ *
+ * Writes the protobuf by hand (spec v2.1): one layer of POINT features, with
+ * keys and values shared across features.
+ */
+
+export type TileValue = string | number | boolean;
+
+export type TilePoint = {
+  lon: number;
+  lat: number;
+  properties: Record<string, TileValue | null | undefined>;
+};
+
+export const TILE_EXTENT = 4096;
+export const TILE_BUFFER = 64; // keep points just outside the tile so symbols don't clip
+
+const MOVE_TO_ONE = (1 << 3) | 1; // command MoveTo, count 1
+
+// Protobuf wire types
+const VARINT = 0;
+const FIXED64 = 1;
+const BYTES = 2;
+
+const zigzag = (n: number) => (n >= 0 ? n * 2 : -n * 2 - 1);
+
+class ProtoWriter {
+  private bytes: number[] = [];
+
+  varint(value: number) {
+    while (value > 0x7f) {
+      this.bytes.push((value % 128) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    this.bytes.push(value);
+  }
+
+  tag(field: number, wireType: number) {
+    this.varint(field * 8 + wireType);
+  }
+
+  uint(field: number, value: number) {
+    this.tag(field, VARINT);
+    this.varint(value);
+  }
+
+  raw(field: number, data: Uint8Array) {
+    this.tag(field, BYTES);
+    this.varint(data.length);
+    data.forEach(byte => this.bytes.push(byte));
+  }
+
+  string(field: number, value: string) {
+    this.raw(field, new TextEncoder().encode(value));
+  }
+
+  double(field: number, value: number) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value);
+    this.tag(field, FIXED64);
+    buffer.forEach(byte => this.bytes.push(byte));
+  }
+
+  packed(field: number, values: number[]) {
+    const inner = new ProtoWriter();
+    values.forEach(value => inner.varint(value));
+    this.raw(field, inner.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Web Mercator position of a point in tile pixels (0..extent inside the tile)
+ */
+export function projectToTile(lon: number, lat: number, z: number, x: number, y: number): [number, number] {
+  const scale = 2 ** z;
+  const latRad = (lat * Math.PI) / 180;
+  const worldX = ((lon + 180) / 360) * scale;
+  const worldY = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale;
+  return [Math.round((worldX - x) * TILE_EXTENT), Math.round((worldY - y) * TILE_EXTENT)];
+}
+
+/**
+ * Longitude/latitude bounds of a tile, [west, south, east, north], grown by
+ * `buffer` tile pixels on each side
+ */
+export function tileBounds(z: number, x: number, y: number, buffer = 0): [number, number, number, number] {
+  const scale = 2 ** z;
+  const pad = buffer / TILE_EXTENT;
+  const lon = (tx: number) => (tx / scale) * 360 - 180;
+  const lat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / scale))) * 180) / Math.PI;
+  return [lon(x - pad), lat(y + 1 + pad), lon(x + 1 + pad), lat(y - pad)];
+}
+
+function encodeValue(value: TileValue): Uint8Array {
+  const writer = new ProtoWriter();
+  if (typeof value === "string") writer.string(1, value);
+  else if (typeof value === "boolean") writer.uint(7, value ? 1 : 0);
+  else if (Number.isInteger(value)) writer.uint(6, zigzag(value)); // sint_value
+  else writer.double(3, value);
+  return writer.finish();
+}
+
+/**
+ * A tile with one point layer. Points outside the tile (plus a small buffer)
+ * are left out; null and undefined properties are skipped.
+ */
+export function encodePointTile(layerName: string, points: TilePoint[], z: number, x: number, y: number): Uint8Array {
+  const keys: string[] = [];
+  const keyIndex = new Map<string, number>();
+  const values: TileValue[] = [];
+  const valueIndex = new Map<string, number>();
+
+  const indexOf = <T>(list: T[], index: Map<string, number>, id: string, item: T) => {
+    if (!index.has(id)) {
+      index.set(id, list.length);
+      list.push(item);
+    }
+    return index.get(id)!;
+  };
+
+  const layer = new ProtoWriter();
+  layer.uint(15, 2); // version
+  layer.string(1, layerName);
+
+  for (const point of points) {
+    const [px, py] = projectToTile(point.lon, point.lat, z, x, y);
+    if (px < -TILE_BUFFER || py < -TILE_BUFFER || px > TILE_EXTENT + TILE_BUFFER || py > TILE_EXTENT + TILE_BUFFER) continue;
+
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(point.properties)) {
+      if (value === null || value === undefined) continue;
+      tags.push(
+        indexOf(keys, keyIndex, key, key),
+        indexOf(values, valueIndex, `${typeof value}:${value}`, value)
+      );
+    }
+
+    const feature = new ProtoWriter();
+    feature.packed(2, tags);
+    feature.uint(3, 1); // POINT
+    feature.packed(4, [MOVE_TO_ONE, zigzag(px), zigzag(py)]);
+    layer.raw(2, feature.finish());
+  }
+
+  keys.forEach(key => layer.string(3, key));
+  values.forEach(value => layer.raw(4, encodeValue(value)));
+  layer.uint(5, TILE_EXTENT);
+
+  const tile = new ProtoWriter();
+  tile.raw(3, layer.finish());
+  return tile.finish();
+}
@@ -0,0 +1,208 @@
+/**
+ * Café normalization and deduplication
+ *
+ * Runs on every dataset before it is cached: cleans up names, `addr:*` tags,
+ * phone numbers and websites, merges near-duplicate entries and flags places
+ * missing the fields the UI relies on.
+ */
+import { calculateDistance } from "@/app/lib/utils";
+
+type RawCafe = {
+  id: string;
+  name: string | null;
+  lat: number;
+  lon: number;
+  tags: Record<string, any>;
+};
+
+export type MissingField = 'name' | 'address' | 'opening_hours';
+
+export type NormalizedFields = {
+  missing?: MissingField[]; // essentials absent after normalization
+  mergedIds?: string[]; // ids of duplicates folded into this entry
+};
+
+// Same-name entries closer than this are one place
+export const DUPLICATE_DISTANCE = 30; // meters
+
+const STREET_ABBREVIATIONS: [RegExp, string][] = [
+  [/^(bd|bld|boul)\.?\s+/i, "Boulevard "],
+  [/^av\.?\s+/i, "Avenue "],
+  [/^r\.?\s+/i, "Rue "],
+  [/^pl\.?\s+/i, "Place "],
+  [/^fbg\.?\s+/i, "Faubourg "],
+  [/^q(ua)?\.?\s+/i, "Quai "],
+  [/^imp\.?\s+/i, "Impasse "],
+  [/^pass\.?\s+/i, "Passage "],
+  [/^sq\.?\s+/i, "Square "],
+];
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// Lowercase ASCII key used to compare names and brands
+export const nameKey = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isShouting = (value: string) => value.length > 3 && value === value.toUpperCase() && /[A-Z]/.test(value);
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s\-'’(])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
+
+/**
+ * Trimmed, single-spaced name without stray quotes. All-caps names are
+ * title-cased, and a name starting with the `brand` tag takes its spelling so
+ * chain branches read the same.
+ */
+export function normalizeName(name: string | null | undefined, brand?: string): string | null {
+  if (!name) return null;
+  let value = collapse(name).replace(/^["«»“”]+|["«»“”]+$/g, "").trim();
+  if (value === "") return null;
+  if (isShouting(value)) value = titleCase(value);
+
+  if (brand) {
+    const brandKey = nameKey(brand);
+    // Shortest prefix whose key matches the brand, e.g. "STARBUCKS - Opéra"
+    for (let end = 1; end <= value.length && brandKey; end++) {
+      if (nameKey(value.slice(0, end)) === brandKey) {
+        value = collapse(brand) + value.slice(end);
+        break;
+      }
+    }
+  }
+
+  return value;
+}
+
+export function normalizeStreet(street: string): string {
+  let value = collapse(street);
+  if (isShouting(value)) value = titleCase(value);
+  for (const [pattern, replacement] of STREET_ABBREVIATIONS) value = value.replace(pattern, replacement);
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function normalizePostcode(postcode: string): string {
+  const digits = postcode.replace(/\D/g, "");
+  return digits.length === 5 ? digits : collapse(postcode);
+}
+
+/**
+ * French numbers as `+33 1 23 45 67 89`; several numbers stay `;`-separated.
+ * Anything else is only trimmed.
+ */
+export function normalizePhone(phone: string): string {
+  return phone
+    .split(/[;,]/)
+    .map(part => {
+      const digits = part.replace(/\(0\)/, "").replace(/[^\d+]/g, "").replace(/^00/, "+");
+      const national = digits.match(/^(?:\+33|0)(\d{9})$/);
+      if (!national) return collapse(part);
+      const n = national[1];
+      return `+33 ${n[0]} ${n.slice(1, 3)} ${n.slice(3, 5)} ${n.slice(5, 7)} ${n.slice(7, 9)}`;
+    })
+    .filter(Boolean)
+    .join("; ");
+}
+
+/**
+ * Absolute URL with a lowercase host; bare domains get `https://`
+ */
+export function normalizeUrl(url: string): string {
+  const value = url.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value.replace(/^\/+/, "")}`;
+  try {
+    return new URL(withScheme).toString();
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Cleaned copy of a place's tags. `contact:*` phone and website fill in the
+ * plain keys when those are missing.
+ */
+export function normalizeTags(tags: Record<string, any> = {}): Record<string, any> {
+  const result: Record<string, any> = { ...tags };
+  const phone = tags.phone ?? tags["contact:phone"];
+  const website = tags.website ?? tags["contact:website"];
+
+  if (phone) result.phone = normalizePhone(String(phone));
+  if (website) result.website = normalizeUrl(String(website));
+  if (tags["addr:street"]) result["addr:street"] = normalizeStreet(String(tags["addr:street"]));
+  if (tags["addr:postcode"]) result["addr:postcode"] = normalizePostcode(String(tags["addr:postcode"]));
+  if (tags["addr:housenumber"]) result["addr:housenumber"] = collapse(String(tags["addr:housenumber"])).toLowerCase();
+  if (tags["addr:city"]) {
+    const city = collapse(String(tags["addr:city"]));
+    result["addr:city"] = /^paris\b/i.test(city) ? "Paris" : city; // "PARIS 11E" and the like
+  }
+  if (tags.name) result.name = normalizeName(tags.name, tags.brand) ?? tags.name;
+
+  return result;
+}
+
+function missingFields(cafe: RawCafe): MissingField[] {
+  const missing: MissingField[] = [];
+  if (!cafe.name) missing.push('name');
+  if (!cafe.tags["addr:street"]) missing.push('address');
+  if (!cafe.tags.opening_hours) missing.push('opening_hours');
+  return missing;
+}
+
+// The richest entry wins; outlines beat points on a tie
+function richness(cafe: RawCafe): number {
+  return Object.keys(cafe.tags ?? {}).length * 2 + (cafe.id.startsWith("node/") ? 0 : 1);
+}
+
+/**
+ * Normalize every place, then merge same-name entries within
+ * DUPLICATE_DISTANCE. The kept entry takes tags it lacks from the others.
+ */
+export function normalizeCafes<T extends RawCafe>(cafes: T[]): (T & NormalizedFields)[] {
+  const normalized = cafes.map(cafe => {
+    const tags = normalizeTags(cafe.tags);
+    return { ...cafe, tags, name: normalizeName(cafe.name, tags.brand) };
+  });
+
+  // Only same-name places can be duplicates, so compare within name groups
+  const groups = new Map<string, T[]>();
+  for (const cafe of normalized) {
+    const key = cafe.name ? nameKey(cafe.name) : "";
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), cafe]);
+  }
+
+  const mergedInto = new Map<string, T[]>(); // kept id -> duplicates
+  const dropped = new Set<string>();
+  groups.forEach(group => {
+    const ranked = [...group].sort((a, b) => richness(b) - richness(a));
+    for (const keeper of ranked) {
+      if (dropped.has(keeper.id)) continue;
+      const duplicates = ranked.filter(other =>
+        other.id !== keeper.id &&
+        !dropped.has(other.id) &&
+        !mergedInto.has(other.id) &&
+        calculateDistance(keeper.lat, keeper.lon, other.lat, other.lon) * 1000 <= DUPLICATE_DISTANCE
+      );
+      if (duplicates.length === 0) continue;
+      duplicates.forEach(duplicate => dropped.add(duplicate.id));
+      mergedInto.set(keeper.id, duplicates);
+    }
+  });
+
+  return normalized
+    .filter(cafe => !dropped.has(cafe.id))
+    .map(cafe => {
+      const duplicates: (T & NormalizedFields)[] = mergedInto.get(cafe.id) ?? [];
+      const tags = duplicates.reduce((merged, duplicate) => ({ ...duplicate.tags, ...merged }), cafe.tags);
+      const result: T & NormalizedFields = { ...cafe, tags };
+
+      // Re-normalizing a cached dataset keeps merges from earlier syncs
+      const missing = missingFields(result);
+      const mergedIds = [cafe, ...duplicates].flatMap(entry => [
+        ...(entry.id === cafe.id ? [] : [entry.id]),
+        ...((entry as NormalizedFields).mergedIds ?? []),
+      ]);
+      result.missing = missing.length > 0 ? missing : undefined;
+      result.mergedIds = mergedIds.length > 0 ? mergedIds : undefined;
+      return result;
+    });
+}
@@ -0,0 +1,218 @@
+/**
+ * OSM `opening_hours` evaluation
+ *
+ * Covers the forms found on Paris cafés: weekday ranges and lists, several
+ * time intervals per day, `off`/`closed`, `PH` (French public holidays),
+ * `24/7` and intervals running past midnight. Rules separated by `;` override
+ * earlier rules for the days they name. Anything else (months, dates, week
+ * numbers, sunrise/sunset) makes the value unparseable and yields null.
+ */
+
+type Interval = [number, number]; // minutes from midnight, end may exceed 1440
+
+type OpeningRule = {
+  weekdays: Set<number> | null; // 0 = Monday … 6 = Sunday, null = every day
+  publicHolidays: boolean;
+  intervals: Interval[]; // empty = closed
+};
+
+export type OpeningHours = OpeningRule[];
+
+const WEEKDAYS = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
+
+const parsed = new Map<string, OpeningHours | null>();
+
+function parseTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 48 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function parseIntervals(value: string): Interval[] | null {
+  const intervals: Interval[] = [];
+  for (const part of value.split(",").map(p => p.trim())) {
+    const [from, to] = part.split("-");
+    const start = parseTime(from ?? "");
+    let end = to === undefined ? null : parseTime(to.replace(/\+$/, ""));
+    if (start === null || end === null) return null;
+    if (end <= start) end += 24 * 60; // runs past midnight
+    intervals.push([start, end]);
+  }
+  return intervals;
+}
+
+/**
+ * Weekday selector such as `Mo-Fr`, `Sa,Su`, `Fr-Mo` or `Mo-Fr,PH`
+ */
+function parseDays(value: string): { weekdays: Set<number>; publicHolidays: boolean } | null {
+  const weekdays = new Set<number>();
+  let publicHolidays = false;
+
+  for (const part of value.split(",").map(p => p.trim())) {
+    if (part === "PH") {
+      publicHolidays = true;
+      continue;
+    }
+    const [from, to] = part.split("-");
+    const start = WEEKDAYS.indexOf(from);
+    const end = to === undefined ? start : WEEKDAYS.indexOf(to);
+    if (start === -1 || end === -1) return null;
+    for (let day = start; ; day = (day + 1) % 7) {
+      weekdays.add(day);
+      if (day === end) break;
+    }
+  }
+
+  return { weekdays, publicHolidays };
+}
+
+function parseRule(rule: string): OpeningRule | null {
+  const text = rule.replace(/"[^"]*"/g, "").trim(); // drop comments
+  if (text === "24/7") return { weekdays: null, publicHolidays: false, intervals: [[0, 24 * 60]] };
+
+  const tokens = text.split(/\s+/);
+  let weekdays: Set<number> | null = null;
+  let publicHolidays = false;
+
+  // Leading day selector, unless the rule starts with a time
+  if (tokens.length > 0 && /^(Mo|Tu|We|Th|Fr|Sa|Su|PH)/.test(tokens[0])) {
+    const days = parseDays(tokens.shift()!.replace(/:$/, ""));
+    if (!days) return null;
+    weekdays = days.weekdays.size > 0 ? days.weekdays : null;
+    publicHolidays = days.publicHolidays;
+    if (weekdays === null && !publicHolidays) return null;
+  }
+
+  const rest = tokens.join("");
+  if (rest === "" || rest === "open") {
+    return { weekdays, publicHolidays, intervals: rest === "open" ? [[0, 24 * 60]] : [] };
+  }
+  if (rest === "off" || rest === "closed") return { weekdays, publicHolidays, intervals: [] };
+
+  const intervals = parseIntervals(rest);
+  if (!intervals) return null;
+  return { weekdays, publicHolidays, intervals };
+}
+
+/**
+ * Parse an `opening_hours` value, memoized. Returns null when any rule is
+ * outside the supported subset.
+ */
+export function parseOpeningHours(value: string | undefined | null): OpeningHours | null {
+  if (!value) return null;
+  if (parsed.has(value)) return parsed.get(value)!;
+
+  const rules: OpeningHours = [];
+  let valid = true;
+  for (const part of value.split(/;|\|\|/).map(p => p.trim()).filter(Boolean)) {
+    const rule = parseRule(part);
+    if (!rule) {
+      valid = false;
+      break;
+    }
+    rules.push(rule);
+  }
+
+  const result = valid && rules.length > 0 ? rules : null;
+  parsed.set(value, result);
+  return result;
+}
+
+/**
+ * Gregorian Easter Sunday (anonymous algorithm), as [month, day]
+ */
+function easterSunday(year: number): [number, number] {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return [month, day];
+}
+
+/**
+ * French public holidays (metropolitan), for a YYYY-MM-DD date
+ */
+export function isFrenchPublicHoliday(date: string): boolean {
+  const [year, month, day] = date.split("-").map(Number);
+  const fixed = ["01-01", "05-01", "05-08", "07-14", "08-15", "11-01", "11-11", "12-25"];
+  if (fixed.includes(date.slice(5))) return true;
+
+  // Easter Monday, Ascension Day and Whit Monday
+  const [easterMonth, easterDay] = easterSunday(year);
+  const easter = Date.UTC(year, easterMonth - 1, easterDay);
+  const target = Date.UTC(year, month - 1, day);
+  const offset = Math.round((target - easter) / (24 * 60 * 60 * 1000));
+  return offset === 1 || offset === 39 || offset === 50;
+}
+
+type LocalDay = { date: string; weekday: number };
+
+// Paris-local date, weekday (Monday = 0) and minutes since midnight
+function parisLocal(time: Date): LocalDay & { minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: "Europe/Paris",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(time);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAYS.indexOf(get("weekday").slice(0, 2)),
+    minutes: parseInt(get("hour")) * 60 + parseInt(get("minute")),
+  };
+}
+
+function previousDay({ date, weekday }: LocalDay): LocalDay {
+  const [year, month, day] = date.split("-").map(Number);
+  const previous = new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+  return { date: previous, weekday: (weekday + 6) % 7 };
+}
+
+// The last rule naming a day wins; PH rules only apply on holidays
+function intervalsFor(hours: OpeningHours, day: LocalDay): Interval[] {
+  const holiday = isFrenchPublicHoliday(day.date);
+  let intervals: Interval[] = [];
+
+  for (const rule of hours) {
+    const matchesWeekday = rule.weekdays === null ? !rule.publicHolidays : rule.weekdays.has(day.weekday);
+    if (matchesWeekday || (rule.publicHolidays && holiday)) {
+      intervals = rule.intervals;
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Whether a place is open at the given instant (Paris time)
+ */
+export function isOpenAt(hours: OpeningHours, time: Date): boolean {
+  const local = parisLocal(time);
+
+  if (intervalsFor(hours, local).some(([start, end]) => local.minutes >= start && local.minutes < end)) {
+    return true;
+  }
+
+  // Yesterday's intervals that run past midnight
+  const spill = local.minutes + 24 * 60;
+  return intervalsFor(hours, previousDay(local)).some(([start, end]) => spill >= start && spill < end);
+}
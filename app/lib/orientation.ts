@@ -0,0 +1,176 @@
+/**
+ * Terrace orientation from street geometry
+ *
+ * Finds the nearest `highway` way to a café, takes the bearing of the nearest
+ * segment and points the facade normal toward the street.
+ */
+
+export type StreetWay = {
+  id: string;
+  name: string | null;
+  highway: string;
+  geometry: [number, number][]; // [lon, lat] polyline
+};
+
+export type CafeOrientation = {
+  bearing: number; // degrees, compass direction the terrace faces (0 = north, 90 = east)
+  method: 'street';
+  streetId?: string;
+  streetName?: string | null;
+  streetDistance?: number; // meters from the café to the street
+  segmentBearing?: number; // degrees, bearing of the nearest street segment
+};
+
+// Terraces further than this from any street keep the heuristic
+export const MAX_STREET_DISTANCE = 50; // meters
+
+const CELL_SIZE = 0.001; // degrees, ~75-110m grid cells
+
+const METERS_PER_DEG_LAT = 110540;
+const METERS_PER_DEG_LON_EQUATOR = 111320;
+
+type StreetIndex = {
+  streets: StreetWay[];
+  cells: Map<string, number[]>;
+};
+
+/**
+ * Convert Overpass `out geom` ways into street polylines
+ */
+export function parseStreets(elements: any[]): StreetWay[] {
+  return elements
+    .filter((el: any) => el.type === "way" && el.tags?.highway && Array.isArray(el.geometry) && el.geometry.length >= 2)
+    .map((el: any) => ({
+      id: `way/${el.id}`,
+      name: el.tags?.name ?? null,
+      highway: el.tags.highway,
+      geometry: el.geometry.map((p: any) => [p.lon, p.lat] as [number, number]),
+    }));
+}
+
+function cellKey(latCell: number, lonCell: number): string {
+  return `${latCell}_${lonCell}`;
+}
+
+function buildStreetIndex(streets: StreetWay[]): StreetIndex {
+  const cells = new Map<string, number[]>();
+
+  streets.forEach((street, i) => {
+    const lats = street.geometry.map(([, lat]) => lat);
+    const lons = street.geometry.map(([lon]) => lon);
+    for (let latCell = Math.floor(Math.min(...lats) / CELL_SIZE); latCell <= Math.floor(Math.max(...lats) / CELL_SIZE); latCell++) {
+      for (let lonCell = Math.floor(Math.min(...lons) / CELL_SIZE); lonCell <= Math.floor(Math.max(...lons) / CELL_SIZE); lonCell++) {
+        const key = cellKey(latCell, lonCell);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+
+  return { streets, cells };
+}
+
+function nearbyStreets(index: StreetIndex, lat: number, lon: number): StreetWay[] {
+  const seen = new Set<number>();
+  const result: StreetWay[] = [];
+  const latCell = Math.floor(lat / CELL_SIZE);
+  const lonCell = Math.floor(lon / CELL_SIZE);
+
+  for (let dLat = -1; dLat <= 1; dLat++) {
+    for (let dLon = -1; dLon <= 1; dLon++) {
+      const bucket = index.cells.get(cellKey(latCell + dLat, lonCell + dLon));
+      if (!bucket) continue;
+      for (const i of bucket) {
+        if (!seen.has(i)) {
+          seen.add(i);
+          result.push(index.streets[i]);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+const normalizeBearing = (b: number) => ((b % 360) + 360) % 360;
+
+// Compass bearing of a vector in local east/north meters
+const bearingOf = (x: number, y: number) => normalizeBearing((Math.atan2(x, y) * 180) / Math.PI);
+
+/**
+ * Compute terrace orientation for a café from the nearest street segment.
+ * Returns null when no street lies within MAX_STREET_DISTANCE.
+ */
+export function orientationFromStreets(
+  lat: number,
+  lon: number,
+  candidates: StreetWay[]
+): CafeOrientation | null {
+  const metersPerDegLon = METERS_PER_DEG_LON_EQUATOR * Math.cos((lat * Math.PI) / 180);
+  const toLocal = ([pLon, pLat]: [number, number]): [number, number] => [
+    (pLon - lon) * metersPerDegLon,
+    (pLat - lat) * METERS_PER_DEG_LAT,
+  ];
+
+  let best: { street: StreetWay; distance: number; nearest: [number, number]; segment: [number, number] } | null = null;
+
+  for (const street of candidates) {
+    const points = street.geometry.map(toLocal);
+    for (let i = 0; i < points.length - 1; i++) {
+      const [px, py] = points[i];
+      const [qx, qy] = points[i + 1];
+      const ex = qx - px;
+      const ey = qy - py;
+      const lengthSq = ex * ex + ey * ey;
+      if (lengthSq === 0) continue;
+
+      // Project the café (origin) onto the segment
+      const s = Math.max(0, Math.min(1, -(px * ex + py * ey) / lengthSq));
+      const nx = px + s * ex;
+      const ny = py + s * ey;
+      const distance = Math.sqrt(nx * nx + ny * ny);
+
+      if (!best || distance < best.distance) {
+        best = { street, distance, nearest: [nx, ny], segment: [ex, ey] };
+      }
+    }
+  }
+
+  if (!best || best.distance > MAX_STREET_DISTANCE) return null;
+
+  const segmentBearing = bearingOf(best.segment[0], best.segment[1]);
+
+  // Two candidate normals; keep the one pointing from the café to the street
+  const toStreet = bearingOf(best.nearest[0], best.nearest[1]);
+  const normalA = normalizeBearing(segmentBearing + 90);
+  const normalB = normalizeBearing(segmentBearing - 90);
+  const diffA = Math.min(Math.abs(normalA - toStreet), 360 - Math.abs(normalA - toStreet));
+  const diffB = Math.min(Math.abs(normalB - toStreet), 360 - Math.abs(normalB - toStreet));
+
+  return {
+    bearing: Math.round(diffA <= diffB ? normalA : normalB),
+    method: 'street',
+    streetId: best.street.id,
+    streetName: best.street.name,
+    streetDistance: Math.round(best.distance * 10) / 10,
+    segmentBearing: Math.round(segmentBearing),
+  };
+}
+
+/**
+ * Attach street-based orientation to every café that has a street nearby
+ */
+export function assignStreetOrientations<T extends { lat: number; lon: number; orientation?: CafeOrientation }>(
+  cafes: T[],
+  streets: StreetWay[]
+): T[] {
+  if (streets.length === 0) return cafes;
+
+  const index = buildStreetIndex(streets);
+
+  return cafes.map(cafe => {
+    const orientation = orientationFromStreets(cafe.lat, cafe.lon, nearbyStreets(index, cafe.lat, cafe.lon));
+    return orientation ? { ...cafe, orientation } : cafe;
+  });
+}
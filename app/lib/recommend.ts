@@ -0,0 +1,116 @@
+/**
+ * "Where should I go now?" ranking
+ *
+ * Each café within walking range is scored on the sun expected while you are
+ * there (the window starting when you would arrive), whether it is open then,
+ * how far it is and whether it is a favorite.
+ */
+import { formatParisTime } from "@/app/lib/sun";
+
+export const WALK_METERS_PER_MINUTE = 75; // ~4.5 km/h, street detours included
+
+// Objective weights: sun dominates, a long walk costs up to half the score
+const MAX_WALK_PENALTY = 0.5;
+const UNKNOWN_HOURS_FACTOR = 0.8; // no parseable opening_hours
+const FAVORITE_BONUS = 1.2;
+
+export type ScoredPlace = {
+  id: string;
+  name: string | null;
+  distance: number; // meters
+  scoreByHour: number[];
+  openByHour?: boolean[];
+};
+
+export type Recommendation = {
+  id: string;
+  name: string | null;
+  distance: number;
+  walkMinutes: number;
+  arrival: string; // ISO
+  sunMinutes: number; // expected (score-weighted) minutes of sun in the window
+  openShare: number | null; // share of the window the café is open, null when unknown
+  favorite: boolean;
+  score: number; // combined objective, 0-1.2
+  reason: string;
+};
+
+export type RecommendOptions = {
+  now: Date;
+  within: number; // minutes spent at the café
+  maxWalkMin: number;
+  stepMinutes: number;
+  favorites: Set<string>;
+};
+
+/**
+ * Minutes of each step that fall inside [start, end)
+ */
+function stepOverlaps(hours: string[], stepMinutes: number, start: Date, end: Date): number[] {
+  return hours.map(time => {
+    const stepStart = new Date(time).getTime();
+    const stepEnd = stepStart + stepMinutes * 60000;
+    return Math.max(0, Math.min(end.getTime(), stepEnd) - Math.max(start.getTime(), stepStart)) / 60000;
+  });
+}
+
+function describe(rec: Omit<Recommendation, 'reason'>, within: number, closesEarly: boolean): string {
+  const parts = [`${rec.walkMinutes} min walk`];
+  if (rec.sunMinutes >= 1) {
+    parts.push(`~${rec.sunMinutes} of your ${within} min in the sun from ${formatParisTime(rec.arrival)}`);
+  } else {
+    parts.push("no sun expected");
+  }
+  if (rec.openShare === 0) parts.push("closed then");
+  else if (closesEarly) parts.push("closes during your visit");
+  else if (rec.openShare !== null) parts.push("open");
+  if (rec.favorite) parts.push("❤️ favorite");
+  return parts.join(" · ");
+}
+
+export function recommendPlace(place: ScoredPlace, hours: string[], options: RecommendOptions): Recommendation {
+  const { now, within, maxWalkMin, stepMinutes, favorites } = options;
+  const walkMinutes = Math.max(1, Math.round(place.distance / WALK_METERS_PER_MINUTE));
+  const arrival = new Date(now.getTime() + walkMinutes * 60000);
+  const leave = new Date(arrival.getTime() + within * 60000);
+
+  const overlaps = stepOverlaps(hours, stepMinutes, arrival, leave);
+  const sunMinutes = overlaps.reduce((sum, minutes, i) => sum + minutes * (place.scoreByHour[i] ?? 0), 0);
+  const covered = overlaps.reduce((sum, minutes) => sum + minutes, 0);
+  const openMinutes = place.openByHour
+    ? overlaps.reduce((sum, minutes, i) => sum + (place.openByHour![i] ? minutes : 0), 0)
+    : null;
+  const openShare = openMinutes === null || covered === 0 ? null : openMinutes / covered;
+
+  const favorite = favorites.has(place.id);
+  const sunShare = within > 0 ? sunMinutes / within : 0;
+  const walkFactor = 1 - MAX_WALK_PENALTY * Math.min(walkMinutes / maxWalkMin, 1);
+  const openFactor = openShare ?? UNKNOWN_HOURS_FACTOR;
+  const score = sunShare * walkFactor * openFactor * (favorite ? FAVORITE_BONUS : 1);
+
+  const rec = {
+    id: place.id,
+    name: place.name,
+    distance: place.distance,
+    walkMinutes,
+    arrival: arrival.toISOString(),
+    sunMinutes: Math.round(sunMinutes),
+    openShare: openShare === null ? null : Math.round(openShare * 100) / 100,
+    favorite,
+    score: Math.round(score * 1000) / 1000,
+  };
+  const closesEarly = openShare !== null && openShare > 0 && openShare < 1;
+  return { ...rec, reason: describe(rec, within, closesEarly) };
+}
+
+/**
+ * Best `limit` places, highest objective first, nearest on ties. Places with
+ * no expected sun (or closed the whole visit) are never recommended.
+ */
+export function rankPlaces(places: ScoredPlace[], hours: string[], options: RecommendOptions, limit: number): Recommendation[] {
+  return places
+    .map(place => recommendPlace(place, hours, options))
+    .filter(rec => rec.score > 0)
+    .sort((a, b) => b.score - a.score || a.distance - b.distance)
+    .slice(0, limit);
+}
@@ -0,0 +1,119 @@
+/**
+ * "Was it sunny?" ground-truth reports
+ *
+ * People at a café report what they see (sunny, partial or shade). Each report
+ * keeps the prediction the API made for that café at that moment, so the
+ * labels can be scored per shadow method, arrondissement and hour of day.
+ *
+ * Stored in `data/reports.json` (`REPORTS_PATH`).
+ */
+import crypto from "crypto";
+import { createJsonStore } from "@/app/lib/json-store";
+
+export type SunObservation = 'sunny' | 'partial' | 'shade';
+
+export const SUN_OBSERVATIONS: SunObservation[] = ['sunny', 'partial', 'shade'];
+
+export type SunPrediction = {
+  time: string; // forecast step the prediction is for
+  score: number;
+  label: string;
+  observation: SunObservation; // label mapped to a report value
+  method: string; // voxcity, buildings or heuristic
+  confidence: number;
+};
+
+export type SunReport = {
+  id: string;
+  cafeId: string;
+  observed: SunObservation;
+  reportedAt: string;
+  hour: number; // Paris hour of day
+  arrondissement: number | null;
+  predicted: SunPrediction | null; // null when scoring failed
+};
+
+export type ClassStats = {
+  precision: number | null; // null when never predicted
+  recall: number | null; // null when never observed
+  support: number; // reports observing this class
+};
+
+export type AccuracyStats = {
+  count: number;
+  accuracy: number | null;
+  classes: Record<SunObservation, ClassStats>;
+};
+
+const store = createJsonStore<SunReport>("REPORTS_PATH", "reports.json");
+
+const round = (x: number) => Math.round(x * 1000) / 1000;
+
+/**
+ * ☀️ is sunny, ⛅ partial, anything else (☁️, 🌙) shade
+ */
+export function observationFromLabel(label: string): SunObservation {
+  if (label === "☀️") return 'sunny';
+  if (label === "⛅") return 'partial';
+  return 'shade';
+}
+
+export function addReport(report: Omit<SunReport, 'id'>): Promise<SunReport> {
+  const stored: SunReport = { id: crypto.randomUUID(), ...report };
+  return store.update(reports => {
+    reports.push(stored);
+    return stored;
+  });
+}
+
+export async function listReports(since?: Date): Promise<SunReport[]> {
+  return (await store.read()).filter(report => !since || new Date(report.reportedAt) > since);
+}
+
+/**
+ * Per-class precision and recall of the predicted labels against reports.
+ * Reports without a prediction are left out.
+ */
+export function accuracyStats(reports: SunReport[]): AccuracyStats {
+  const scored = reports.filter(report => report.predicted);
+  const correct = scored.filter(report => report.predicted!.observation === report.observed).length;
+
+  const classes = {} as Record<SunObservation, ClassStats>;
+  for (const observation of SUN_OBSERVATIONS) {
+    const predicted = scored.filter(report => report.predicted!.observation === observation);
+    const observed = scored.filter(report => report.observed === observation);
+    const hits = predicted.filter(report => report.observed === observation).length;
+    classes[observation] = {
+      precision: predicted.length > 0 ? round(hits / predicted.length) : null,
+      recall: observed.length > 0 ? round(hits / observed.length) : null,
+      support: observed.length,
+    };
+  }
+
+  return {
+    count: scored.length,
+    accuracy: scored.length > 0 ? round(correct / scored.length) : null,
+    classes,
+  };
+}
+
+/**
+ * accuracyStats for each group of reports sharing a key
+ */
+export function accuracyBy(
+  reports: SunReport[],
+  keyOf: (report: SunReport) => string | number | null
+): Record<string, AccuracyStats> {
+  const groups = new Map<string, SunReport[]>();
+  for (const report of reports) {
+    const key = keyOf(report);
+    if (key === null) continue;
+    groups.set(String(key), [...(groups.get(String(key)) ?? []), report]);
+  }
+
+  const result: Record<string, AccuracyStats> = {};
+  Array.from(groups.keys())
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .forEach(key => { result[key] = accuracyStats(groups.get(key)!); });
+  return result;
+}
@@ -0,0 +1,86 @@
+/**
+ * Sun scores as map features
+ *
+ * `format=geojson` on `/api/sunscore` returns one Point per café with its
+ * per-step arrays. Vector tiles can't hold arrays, so tile features carry one
+ * `score_<i>` / `label_<i>` pair per step instead; a map layer picks the step
+ * with `["get", "score_3"]`.
+ */
+import type { TilePoint } from "@/app/lib/mvt";
+
+type ScoredCafe = {
+  id: string;
+  name: string | null;
+  category: string | null;
+  lat: number;
+  lon: number;
+  arrondissement?: number;
+  labelByHour: string[];
+  scoreByHour: number[];
+  comfortByHour?: number[];
+  openByHour?: boolean[];
+  sunSummary?: string;
+};
+
+type SunScoresPayload = {
+  updatedAt: string;
+  hours: string[];
+  cafes: ScoredCafe[];
+  meta?: Record<string, any>;
+};
+
+export type SunFeatureCollection = {
+  type: "FeatureCollection";
+  updatedAt: string;
+  hours: string[]; // index i matches scoreByHour[i] on every feature
+  features: {
+    type: "Feature";
+    id: string;
+    geometry: { type: "Point"; coordinates: [number, number] };
+    properties: Omit<ScoredCafe, 'lat' | 'lon'>;
+  }[];
+  meta?: Record<string, any>;
+};
+
+export function sunScoresToGeoJSON(data: SunScoresPayload): SunFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    updatedAt: data.updatedAt,
+    hours: data.hours,
+    features: data.cafes.map(cafe => ({
+      type: "Feature",
+      id: cafe.id,
+      geometry: { type: "Point", coordinates: [cafe.lon, cafe.lat] },
+      properties: {
+        id: cafe.id,
+        name: cafe.name,
+        category: cafe.category,
+        arrondissement: cafe.arrondissement,
+        labelByHour: cafe.labelByHour,
+        scoreByHour: cafe.scoreByHour,
+        comfortByHour: cafe.comfortByHour,
+        openByHour: cafe.openByHour,
+        sunSummary: cafe.sunSummary,
+      },
+    })),
+    meta: data.meta,
+  };
+}
+
+/**
+ * Flat tile properties: arrays become one key per step
+ */
+export function sunScoreTilePoint(cafe: ScoredCafe): TilePoint {
+  const properties: TilePoint['properties'] = {
+    id: cafe.id,
+    name: cafe.name,
+    category: cafe.category,
+    arrondissement: cafe.arrondissement,
+  };
+  cafe.scoreByHour.forEach((score, i) => {
+    properties[`score_${i}`] = Math.round(score * 100) / 100;
+    properties[`label_${i}`] = cafe.labelByHour[i];
+    if (cafe.openByHour) properties[`open_${i}`] = cafe.openByHour[i];
+  });
+  return { lon: cafe.lon, lat: cafe.lat, properties };
+}
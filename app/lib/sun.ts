@@ -8,18 +8,145 @@ export function sunAt(dt: Date, lat = 48.8566, lon = 2.3522) {
   };
 }
 
+// Scores at or above this count as sunny
+export const SUNNY_SCORE = 0.6;
+
 export function labelFromScore(s: number, isAfterSunset: boolean = false) {
   if (isAfterSunset) return "🌙"; // after sunset
-  if (s >= 0.6) return "☀️"; // sunny
+  if (s >= SUNNY_SCORE) return "☀️"; // sunny
   if (s >= 0.3) return "⛅"; // mixed/partial
   return "☁️"; // shade/cloudy
 }
 
+// Plane-of-terrace irradiance treated as "full sun" (score 1)
+export const FULL_SUN_IRRADIANCE = 600; // W/m²
+
+export function labelFromIrradiance(wm2: number, isAfterSunset: boolean = false) {
+  if (isAfterSunset) return "🌙";
+  if (wm2 >= 350) return "☀️"; // direct sun on the terrace
+  if (wm2 >= 150) return "⛅"; // weak or partly shaded sun
+  return "☁️"; // diffuse light only
+}
+
+export type TerraceIrradiance = {
+  beam: number; // W/m², direct component on the facade-facing plane
+  diffuse: number; // W/m², sky diffuse reaching the plane
+  total: number;
+};
+
+/**
+ * Irradiance on a vertical plane facing the street, as received by a seated
+ * person on the terrace. Beam is DNI projected on the plane normal and scaled
+ * by the unshadowed fraction; diffuse assumes an isotropic sky seen through
+ * half a hemisphere.
+ */
+export function terraceIrradiance(
+  sunAzimuth: number, // radians, suncalc convention
+  sunElevation: number, // radians
+  facadeBearing: number, // degrees, compass direction the terrace faces
+  directNormalIrradiance: number, // W/m²
+  diffuseRadiation: number, // W/m², on the horizontal
+  unshadowed: number // 0 = fully shadowed, 1 = clear
+): TerraceIrradiance {
+  const sunBearing = sunAzimuth + Math.PI; // compass, radians
+  const cosIncidence = Math.cos(sunElevation) * Math.cos(sunBearing - rad(facadeBearing));
+  const beam = sunElevation > 0 ? Math.max(0, directNormalIrradiance * cosIncidence) * clamp(unshadowed) : 0;
+  const diffuse = Math.max(0, diffuseRadiation) * 0.5;
+
+  return {
+    beam: Math.round(beam),
+    diffuse: Math.round(diffuse),
+    total: Math.round(beam + diffuse),
+  };
+}
+
 export function isAfterSunset(dt: Date, lat = 48.8566, lon = 2.3522): boolean {
   const sunTimes = SunCalc.getTimes(dt, lat, lon);
   return dt > sunTimes.sunset;
 }
 
+export function isDaylight(dt: Date, lat = 48.8566, lon = 2.3522): boolean {
+  const sunTimes = SunCalc.getTimes(dt, lat, lon);
+  return dt >= sunTimes.sunrise && dt <= sunTimes.sunset;
+}
+
+// Sunrise and sunset on the day of `dt`
+export function daylightBounds(dt: Date, lat = 48.8566, lon = 2.3522): { sunrise: Date; sunset: Date } {
+  const { sunrise, sunset } = SunCalc.getTimes(dt, lat, lon);
+  return { sunrise, sunset };
+}
+
+export type SunWindow = {
+  start: string; // ISO, first sunny step
+  end: string; // ISO, end of the last sunny step (exclusive)
+  peakScore: number;
+  peakAt: string; // ISO, step with the highest score
+  avgScore: number;
+};
+
+/**
+ * Collapse per-step scores into contiguous intervals at or above the threshold.
+ * Steps further apart than one step (e.g. across a skipped night) break a window.
+ */
+export function findSunWindows(
+  times: string[],
+  scores: number[],
+  stepMinutes: number,
+  threshold: number = SUNNY_SCORE
+): SunWindow[] {
+  const stepMs = stepMinutes * 60 * 1000;
+  const windows: SunWindow[] = [];
+  let startIndex = -1;
+
+  const close = (endIndex: number) => {
+    let peakIndex = startIndex;
+    let total = 0;
+    for (let i = startIndex; i <= endIndex; i++) {
+      total += scores[i];
+      if (scores[i] > scores[peakIndex]) peakIndex = i;
+    }
+    windows.push({
+      start: times[startIndex],
+      end: new Date(new Date(times[endIndex]).getTime() + stepMs).toISOString(),
+      peakScore: Math.round(scores[peakIndex] * 100) / 100,
+      peakAt: times[peakIndex],
+      avgScore: Math.round((total / (endIndex - startIndex + 1)) * 100) / 100,
+    });
+    startIndex = -1;
+  };
+
+  for (let i = 0; i < times.length; i++) {
+    const sunny = scores[i] >= threshold;
+    const contiguous = i > 0 && new Date(times[i]).getTime() - new Date(times[i - 1]).getTime() <= stepMs;
+
+    if (startIndex !== -1 && (!sunny || !contiguous)) close(i - 1);
+    if (sunny && startIndex === -1) startIndex = i;
+  }
+  if (startIndex !== -1) close(times.length - 1);
+
+  return windows;
+}
+
+// HH:MM in Paris time
+export function formatParisTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/Paris" });
+}
+
+/**
+ * One-line summary of sun windows, e.g. "Sunny 14:00–17:30, best at 15:00"
+ */
+export function describeSunWindows(windows: SunWindow[]): string {
+  if (windows.length === 0) return "No sun expected";
+
+  const ranges = windows.map(w => `${formatParisTime(w.start)}–${formatParisTime(w.end)}`);
+  const joined = ranges.length > 1
+    ? `${ranges.slice(0, -1).join(", ")} and ${ranges[ranges.length - 1]}`
+    : ranges[0];
+  const best = windows.reduce((a, b) => (b.peakScore > a.peakScore ? b : a));
+
+  return `Sunny ${joined}, best at ${formatParisTime(best.peakAt)}`;
+}
+
 export const deg = (r: number) => (r * 180) / Math.PI;
 export const rad = (d: number) => (d * Math.PI) / 180;
 export const clamp = (x: number, a = 0, b = 1) => Math.max(a, Math.min(b, x));
@@ -0,0 +1,146 @@
+/**
+ * Terrace geometry from `leisure=outdoor_seating` areas
+ *
+ * Links mapped seating areas to the nearest café, and precomputes what the
+ * sunscore engine needs: centroid, area, facing direction and a handful of
+ * sample points spread across the polygon.
+ */
+import { area, booleanPointInPolygon, point } from "@turf/turf";
+import { elementFootprint, footprintCenter } from "@/app/lib/footprint";
+import { assignStreetOrientations } from "@/app/lib/orientation";
+import type { Footprint } from "@/app/lib/footprint";
+import type { CafeOrientation, StreetWay } from "@/app/lib/orientation";
+
+export type TerraceArea = {
+  id: string;
+  footprint: Footprint;
+  lat: number; // centroid
+  lon: number;
+  orientation?: CafeOrientation; // from the nearest street
+};
+
+export type CafeTerrace = {
+  id: string;
+  lat: number; // centroid
+  lon: number;
+  area: number; // m²
+  bearing: number; // degrees, compass direction the terrace faces
+  bearingSource: 'street' | 'cafe'; // nearest street, or away from the café
+  samples: [number, number][]; // [lat, lon] points inside the polygon
+  footprint: Footprint;
+};
+
+// Seating areas further than this from every café are left unlinked
+export const TERRACE_LINK_DISTANCE = 25; // meters
+
+const MAX_SAMPLES = 9;
+
+const round = (x: number) => Math.round(x * 1e6) / 1e6;
+
+const METERS_PER_DEG_LAT = 110540;
+const METERS_PER_DEG_LON_EQUATOR = 111320;
+
+/**
+ * Seating areas from Overpass `out geom` ways and relations (point-mapped
+ * terraces carry no geometry and are skipped)
+ */
+export function parseTerraces(elements: any[]): TerraceArea[] {
+  return elements
+    .filter((el: any) => el.tags?.leisure === "outdoor_seating" && el.type !== "node")
+    .map((el: any) => {
+      const footprint = elementFootprint(el);
+      if (!footprint) return null;
+      const [lon, lat] = footprintCenter(footprint);
+      return { id: `${el.type}/${el.id}`, footprint, lat, lon };
+    })
+    .filter((terrace: TerraceArea | null): terrace is TerraceArea => terrace !== null);
+}
+
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dx = (lon2 - lon1) * METERS_PER_DEG_LON_EQUATOR * Math.cos((lat1 * Math.PI) / 180);
+  const dy = (lat2 - lat1) * METERS_PER_DEG_LAT;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function bearingBetween(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dx = (lon2 - lon1) * METERS_PER_DEG_LON_EQUATOR * Math.cos((lat1 * Math.PI) / 180);
+  const dy = (lat2 - lat1) * METERS_PER_DEG_LAT;
+  return ((Math.round((Math.atan2(dx, dy) * 180) / Math.PI) % 360) + 360) % 360;
+}
+
+/**
+ * Up to MAX_SAMPLES [lat, lon] points on a regular grid inside the footprint,
+ * falling back to the centroid for slivers the grid misses
+ */
+export function terraceSamples(footprint: Footprint, centroid: [number, number]): [number, number][] {
+  const positions = footprint.type === 'Polygon' ? footprint.coordinates.flat() : footprint.coordinates.flat(2);
+  const lons = positions.map(([lon]) => lon);
+  const lats = positions.map(([, lat]) => lat);
+  const [west, east, south, north] = [Math.min(...lons), Math.max(...lons), Math.min(...lats), Math.max(...lats)];
+
+  // Cell centers of a 5x5 grid over the bounding box
+  const inside: [number, number][] = [];
+  const n = 5;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const lat = south + ((i + 0.5) / n) * (north - south);
+      const lon = west + ((j + 0.5) / n) * (east - west);
+      if (booleanPointInPolygon(point([lon, lat]), footprint)) inside.push([round(lat), round(lon)]);
+    }
+  }
+
+  if (inside.length === 0) return [centroid];
+  if (inside.length <= MAX_SAMPLES) return inside;
+
+  // Evenly thin out to MAX_SAMPLES
+  return Array.from({ length: MAX_SAMPLES }, (_, k) => inside[Math.floor((k * inside.length) / MAX_SAMPLES)]);
+}
+
+/**
+ * Link each seating area to the nearest café within TERRACE_LINK_DISTANCE.
+ * A café with several areas keeps the largest one.
+ */
+export function assignTerraces<T extends { lat: number; lon: number; terrace?: CafeTerrace }>(
+  cafes: T[],
+  terraces: TerraceArea[],
+  streets: StreetWay[]
+): T[] {
+  if (terraces.length === 0 || cafes.length === 0) return cafes;
+
+  // Terrace facing comes from its own nearest street when one is in reach
+  const oriented = assignStreetOrientations(terraces, streets);
+  const linked = new Map<number, CafeTerrace>();
+
+  for (const terrace of oriented) {
+    let nearestIndex = -1;
+    let nearestDistance = TERRACE_LINK_DISTANCE;
+    cafes.forEach((cafe, i) => {
+      const distance = distanceMeters(cafe.lat, cafe.lon, terrace.lat, terrace.lon);
+      if (distance <= nearestDistance) {
+        nearestIndex = i;
+        nearestDistance = distance;
+      }
+    });
+    if (nearestIndex === -1) continue;
+
+    const cafe = cafes[nearestIndex];
+    const candidate: CafeTerrace = {
+      id: terrace.id,
+      lat: terrace.lat,
+      lon: terrace.lon,
+      area: Math.round(area(terrace.footprint)),
+      bearing: terrace.orientation?.bearing ?? bearingBetween(cafe.lat, cafe.lon, terrace.lat, terrace.lon),
+      bearingSource: terrace.orientation ? 'street' : 'cafe',
+      samples: terraceSamples(terrace.footprint, [terrace.lat, terrace.lon]),
+      footprint: terrace.footprint,
+    };
+
+    const existing = linked.get(nearestIndex);
+    if (!existing || candidate.area > existing.area) linked.set(nearestIndex, candidate);
+  }
+
+  return cafes.map((cafe, i) => {
+    const terrace = linked.get(i);
+    return terrace ? { ...cafe, terrace } : cafe;
+  });
+}
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * OSM Building Footprint Fetcher
+ *
+ * Dumps building polygons (with height / building:levels tags) for central
+ * Paris from Overpass, for the `buildings` shadow precision mode.
+ *
+ * Usage:
+ *   node scripts/fetch-osm-buildings.js
+ *   node scripts/fetch-osm-buildings.js --bbox=48.850,2.330,48.858,2.345
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Configuration
+const CONFIG = {
+  // Same central Paris bounds as the VoxCity generator
+  bbox: {
+    south: 48.8400,
+    west: 2.3200,
+    north: 48.8800,
+    east: 2.3800
+  },
+
+  endpoints: [
+    'https://overpass-api.de/api/interpreter',
+    'https://lz4.overpass-api.de/api/interpreter'
+  ],
+
+  // Output file read by app/lib/buildings.ts
+  outputPath: path.join(__dirname, '..', 'public', 'osm', 'buildings.json')
+};
+
+/**
+ * Build the Overpass query, `out geom` inlines node coordinates on each way
+ */
+function buildQuery(bbox) {
+  const box = `${bbox.south},${bbox.west},${bbox.north},${bbox.east}`;
+  return `
+[out:json][timeout:180];
+(
+  way["building"](${box});
+  relation["building"]["type"="multipolygon"](${box});
+);
+out tags geom;
+`;
+}
+
+/**
+ * POST the query to each endpoint until one answers
+ */
+async function fetchOverpass(query) {
+  let lastError;
+
+  for (const endpoint of CONFIG.endpoints) {
+    try {
+      console.log(`Querying ${endpoint}...`);
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'User-Agent': 'KinParisCoffeeShades/0.1'
+        },
+        body: new URLSearchParams({ data: query })
+      });
+
+      if (!res.ok) throw new Error(`Overpass ${res.status}`);
+      return await res.json();
+    } catch (error) {
+      console.warn(`Endpoint failed: ${error.message}`);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Main fetch function
+ */
+async function fetchOsmBuildings(options = {}) {
+  console.log('🏢 OSM Building Footprint Fetcher');
+  console.log('=================================');
+
+  const bbox = options.bbox || CONFIG.bbox;
+  console.log(`Bounds: ${bbox.south},${bbox.west} → ${bbox.north},${bbox.east}`);
+
+  const data = await fetchOverpass(buildQuery(bbox));
+  const elements = data.elements || [];
+
+  const withHeight = elements.filter(el => el.tags && el.tags.height).length;
+  const withLevels = elements.filter(el => el.tags && !el.tags.height && el.tags['building:levels']).length;
+
+  const outputDir = path.dirname(CONFIG.outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  fs.writeFileSync(CONFIG.outputPath, JSON.stringify(data));
+
+  console.log('✅ Building dump complete!');
+  console.log(`📁 Output file: ${CONFIG.outputPath}`);
+  console.log(`📊 ${elements.length} buildings (${withHeight} with height, ${withLevels} with levels only)`);
+  console.log(`💾 File size: ${(fs.statSync(CONFIG.outputPath).size / 1024 / 1024).toFixed(1)} MB`);
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {};
+
+  for (const arg of args) {
+    if (arg.startsWith('--bbox=')) {
+      const [south, west, north, east] = arg.split('=')[1].split(',').map(v => parseFloat(v.trim()));
+      options.bbox = { south, west, north, east };
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Run if called directly
+ */
+if (require.main === module) {
+  const options = parseArgs();
+
+  fetchOsmBuildings(options).catch(error => {
+    console.error('❌ Fetch failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { fetchOsmBuildings, CONFIG };
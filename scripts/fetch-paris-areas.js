@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Paris Area Boundary Fetcher
+ *
+ * Downloads the 20 arrondissement and 80 quartier boundaries from the Paris
+ * open data portal and writes them as compact GeoJSON for app/lib/areas.ts.
+ *
+ * Usage:
+ *   node scripts/fetch-paris-areas.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Configuration
+const CONFIG = {
+  baseUrl: 'https://opendata.paris.fr/api/explore/v2.1/catalog/datasets',
+
+  datasets: {
+    // c_ar = arrondissement number, l_aroff = official name (Louvre, Bourse...)
+    arrondissement: 'arrondissements',
+    // c_qu = quartier number (1-80), l_qu = name, c_ar = arrondissement
+    quartier: 'quartier_paris'
+  },
+
+  // Output directory read by app/lib/areas.ts
+  outputDir: path.join(__dirname, '..', 'public', 'geo'),
+
+  // ~10 cm, plenty for point-in-polygon on café coordinates
+  coordinateDecimals: 6
+};
+
+/**
+ * Download a dataset's GeoJSON export
+ */
+async function fetchDataset(dataset) {
+  const url = `${CONFIG.baseUrl}/${dataset}/exports/geojson`;
+  console.log(`Downloading ${url}...`);
+
+  const res = await fetch(url, { headers: { 'User-Agent': 'KinParisCoffeeShades/0.1' } });
+  if (!res.ok) throw new Error(`${dataset} ${res.status}`);
+  return await res.json();
+}
+
+/**
+ * Round coordinates at any nesting depth
+ */
+function roundCoordinates(coordinates) {
+  if (typeof coordinates[0] === 'number') {
+    const factor = 10 ** CONFIG.coordinateDecimals;
+    return coordinates.map(v => Math.round(v * factor) / factor);
+  }
+  return coordinates.map(roundCoordinates);
+}
+
+/**
+ * Keep only the geometry and the properties the app reads
+ */
+function normalize(collection, toProperties) {
+  const features = (collection.features || [])
+    .filter(feature => feature.geometry)
+    .map(feature => ({
+      type: 'Feature',
+      properties: toProperties(feature.properties || {}),
+      geometry: {
+        type: feature.geometry.type,
+        coordinates: roundCoordinates(feature.geometry.coordinates)
+      }
+    }));
+
+  return { type: 'FeatureCollection', features };
+}
+
+function writeCollection(fileName, collection) {
+  const outputPath = path.join(CONFIG.outputDir, fileName);
+  fs.writeFileSync(outputPath, JSON.stringify(collection));
+  console.log(`📁 ${outputPath}: ${collection.features.length} areas, ${(fs.statSync(outputPath).size / 1024).toFixed(0)} KB`);
+}
+
+/**
+ * Main fetch function
+ */
+async function fetchParisAreas() {
+  console.log('🗺️ Paris Area Boundary Fetcher');
+  console.log('==============================');
+
+  const [arrondissements, quartiers] = await Promise.all([
+    fetchDataset(CONFIG.datasets.arrondissement),
+    fetchDataset(CONFIG.datasets.quartier)
+  ]);
+
+  if (!fs.existsSync(CONFIG.outputDir)) {
+    fs.mkdirSync(CONFIG.outputDir, { recursive: true });
+  }
+
+  writeCollection('arrondissements.geojson', normalize(arrondissements, props => ({
+    arrondissement: Number(props.c_ar),
+    name: props.l_aroff
+  })));
+
+  writeCollection('quartiers.geojson', normalize(quartiers, props => ({
+    quartier: Number(props.c_qu),
+    name: props.l_qu,
+    arrondissement: Number(props.c_ar)
+  })));
+
+  console.log('✅ Area boundaries complete!');
+}
+
+/**
+ * Run if called directly
+ */
+if (require.main === module) {
+  fetchParisAreas().catch(error => {
+    console.error('❌ Fetch failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { fetchParisAreas, CONFIG };
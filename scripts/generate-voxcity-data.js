@@ -13,6 +13,8 @@
 
 const fs = require('fs');
 const path = require('path');
+const zlib = require('zlib');
+const crypto = require('crypto');
 
 // Configuration
 const CONFIG = {
@@ -159,8 +161,68 @@ function generateShadowMask(tile, month, timeSlot) {
   return shadows;
 }
 
+// CRC-32 table for PNG chunk checksums
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
 /**
- * Save shadow mask as PNG-like data (simplified format)
+ * Encode a row-major 0-255 array as an 8-bit grayscale PNG
+ */
+function encodeGrayscalePng(width, height, pixels) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 0;  // color type: grayscale
+  header[10] = 0; // compression
+  header[11] = 0; // filter method
+  header[12] = 0; // no interlace
+
+  // Each scanline is prefixed with filter type 0 (None)
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width + 1)] = 0;
+    for (let x = 0; x < width; x++) {
+      raw[y * (width + 1) + 1 + x] = pixels[y * width + x];
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Save shadow mask as an 8-bit grayscale PNG (0 = full shadow, 255 = full sun)
  */
 function saveShadowMask(tile, month, timeSlot, shadowData) {
   const tileDir = path.join(CONFIG.outputDir, 'tiles', tile.tileId);
@@ -170,60 +232,59 @@ function saveShadowMask(tile, month, timeSlot, shadowData) {
     fs.mkdirSync(tileDir, { recursive: true });
   }
   
-  // Save as JSON for now (in real implementation, would be PNG)
-  const filename = `2024-${month.toString().padStart(2, '0')}-${timeSlot}.json`;
+  const filename = `2024-${month.toString().padStart(2, '0')}-${timeSlot}.png`;
   const filepath = path.join(tileDir, filename);
   
-  const maskData = {
-    tileId: tile.tileId,
-    month,
-    timeSlot,
-    width: tile.pixelWidth,
-    height: tile.pixelHeight,
-    format: 'grayscale_json', // Would be 'png' in real implementation
-    shadows: shadowData,
-    generated: new Date().toISOString()
-  };
-  
-  fs.writeFileSync(filepath, JSON.stringify(maskData));
-  
-  // Also save tile info
-  const tileInfoPath = path.join(tileDir, 'tile-info.json');
-  if (!fs.existsSync(tileInfoPath)) {
-    fs.writeFileSync(tileInfoPath, JSON.stringify(tile, null, 2));
-  }
+  const png = encodeGrayscalePng(tile.pixelWidth, tile.pixelHeight, shadowData);
+  fs.writeFileSync(filepath, png);
   
-  return filename;
+  return {
+    filename,
+    bytes: png.length,
+    sha256: crypto.createHash('sha256').update(png).digest('hex')
+  };
 }
 
 /**
- * Generate metadata index
+ * Generate the manifest: every tile's bounds, mask keys, byte sizes and hashes
  */
-function generateMetadata(tiles, masks) {
-  const metadata = {
-    version: "1.0.0",
+function generateManifest(tiles, masks) {
+  const masksByTile = new Map();
+  for (const mask of masks) {
+    if (!masksByTile.has(mask.tileId)) masksByTile.set(mask.tileId, {});
+    const key = `${mask.month.toString().padStart(2, '0')}-${mask.timeSlot}`;
+    masksByTile.get(mask.tileId)[key] = {
+      url: `/vox/tiles/${mask.tileId}/${mask.filename}`,
+      bytes: mask.bytes,
+      sha256: mask.sha256
+    };
+  }
+  
+  const manifest = {
+    version: "2.0.0",
     generated: new Date().toISOString(),
+    format: "png-gray8",
     coverage: CONFIG.bounds,
     tileSystem: {
       tileSize: CONFIG.tileSize,
       resolution: CONFIG.resolution,
       pixelsPerTile: CONFIG.pixelsPerTile
     },
-    tiles: tiles,
-    masks: masks.map(mask => ({
-      tileId: mask.tileId,
-      month: mask.month,
-      slot: mask.timeSlot,
-      url: `/vox/tiles/${mask.tileId}/${mask.filename}`,
-      generated: mask.generated
+    totalBytes: masks.reduce((sum, mask) => sum + mask.bytes, 0),
+    tiles: tiles.map(tile => ({
+      tileId: tile.tileId,
+      bounds: tile.bounds,
+      width: tile.pixelWidth,
+      height: tile.pixelHeight,
+      masks: masksByTile.get(tile.tileId) || {}
     }))
   };
   
-  const metadataPath = path.join(CONFIG.outputDir, 'metadata.json');
-  fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+  const manifestPath = path.join(CONFIG.outputDir, 'manifest.json');
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
   
-  console.log(`Saved metadata to ${metadataPath}`);
-  return metadata;
+  console.log(`Saved manifest to ${manifestPath}`);
+  return manifest;
 }
 
 /**
@@ -324,14 +385,13 @@ async function generateVoxCityData(options = {}) {
     for (const month of targetMonths) {
       for (const timeSlot of CONFIG.timeSlots) {
         const shadowData = generateShadowMask(tile, month, timeSlot);
-        const filename = saveShadowMask(tile, month, timeSlot, shadowData);
+        const saved = saveShadowMask(tile, month, timeSlot, shadowData);
         
         masks.push({
           tileId: tile.tileId,
           month,
           timeSlot,
-          filename,
-          generated: new Date().toISOString()
+          ...saved
         });
         
         processed++;
@@ -342,15 +402,15 @@ async function generateVoxCityData(options = {}) {
     }
   }
   
-  // Generate metadata
-  const metadata = generateMetadata(tiles, masks);
+  // Generate manifest
+  const manifest = generateManifest(tiles, masks);
   
   console.log('✅ VoxCity data generation complete!');
   console.log(`📁 Output directory: ${CONFIG.outputDir}`);
   console.log(`📊 Generated ${masks.length} shadow masks for ${tiles.length} tiles`);
-  console.log(`💾 Total file size: ~${(masks.length * 2).toFixed(1)} KB (simulated)`);
+  console.log(`💾 Total file size: ${(manifest.totalBytes / 1024).toFixed(1)} KB`);
   
-  return metadata;
+  return manifest;
 }
 
 /**
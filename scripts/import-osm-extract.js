@@ -0,0 +1,405 @@
+#!/usr/bin/env node
+
+/**
+ * Offline Café Dataset Importer
+ *
+ * Turns an OSM extract of Paris (`.osm.pbf`, or Overpass-style `.osm.json`)
+ * into the dataset read by the `extract` café source: places that can have a
+ * terrace, the streets they may face and mapped seating areas, with inline
+ * geometry like Overpass `out tags geom`. Run with `CAFE_SOURCE=extract` to
+ * use it instead of the live Overpass API.
+ *
+ * Usage:
+ *   node scripts/import-osm-extract.js --input=paris.osm.pbf
+ *   node scripts/import-osm-extract.js --input=paris.osm.json --bbox=48.85,2.33,48.86,2.35
+ *   node scripts/import-osm-extract.js --input=paris.osm.pbf --output=/tmp/cafes.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+// Configuration
+const CONFIG = {
+  // Same bounds as the live Overpass queries in app/lib/cafe-sources.ts
+  bbox: {
+    south: 48.8156,
+    west: 2.2242,
+    north: 48.9022,
+    east: 2.4699
+  },
+
+  // Amenities covered by the POI categories in app/lib/categories.ts
+  placeAmenities: ['cafe', 'bar', 'pub', 'restaurant'],
+
+  // Same as TERRACE_STREET_TYPES in app/lib/cafe-sources.ts
+  streetTypes: ['primary', 'secondary', 'tertiary', 'residential', 'unclassified', 'living_street', 'pedestrian'],
+
+  // Output file read by app/lib/cafe-sources.ts
+  outputPath: path.join(__dirname, '..', 'public', 'osm', 'cafes.json')
+};
+
+const isPlace = tags => CONFIG.placeAmenities.includes(tags.amenity);
+const isStreet = tags => CONFIG.streetTypes.includes(tags.highway);
+const isTerrace = tags => tags.leisure === 'outdoor_seating';
+
+const round = value => Math.round(value * 1e7) / 1e7;
+
+/* ---------- Minimal OSM PBF reader (zlib blobs only) ---------- */
+
+// Varints as plain numbers: OSM ids and coordinates stay below 2^53
+function readVarint(state) {
+  let result = 0;
+  let multiplier = 1;
+  let byte;
+  do {
+    byte = state.buf[state.pos++];
+    result += (byte & 0x7f) * multiplier;
+    multiplier *= 128;
+  } while (byte & 0x80);
+  return result;
+}
+
+const zigzag = n => (n % 2 === 0 ? n / 2 : -(n + 1) / 2);
+
+/**
+ * Call onField(field, value, wireType) for each protobuf field. Length-delimited
+ * values are Buffers, varints are numbers; fixed-width fields are skipped.
+ */
+function readFields(buf, onField) {
+  const state = { buf, pos: 0 };
+  while (state.pos < buf.length) {
+    const key = readVarint(state);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      onField(field, readVarint(state), wireType);
+    } else if (wireType === 2) {
+      const length = readVarint(state);
+      onField(field, buf.subarray(state.pos, state.pos + length), wireType);
+      state.pos += length;
+    } else if (wireType === 1) {
+      state.pos += 8;
+    } else if (wireType === 5) {
+      state.pos += 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+// Packed repeated varints (also accepts a single unpacked value)
+function readPacked(value) {
+  if (typeof value === 'number') return [value];
+  const state = { buf: value, pos: 0 };
+  const values = [];
+  while (state.pos < value.length) values.push(readVarint(state));
+  return values;
+}
+
+function deltaDecode(values) {
+  let current = 0;
+  return values.map(value => (current += zigzag(value)));
+}
+
+function tagsFrom(keys, vals, strings) {
+  const tags = {};
+  keys.forEach((key, i) => { tags[strings[key]] = strings[vals[i]]; });
+  return tags;
+}
+
+/**
+ * Decode one PrimitiveBlock, emitting the element kinds asked for
+ */
+function decodePrimitiveBlock(buf, kinds, emit) {
+  const strings = [];
+  const groups = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  readFields(buf, (field, value) => {
+    if (field === 1) readFields(value, (f, s) => { if (f === 1) strings.push(s.toString('utf8')); });
+    else if (field === 2) groups.push(value);
+    else if (field === 17) granularity = value;
+    else if (field === 19) latOffset = value;
+    else if (field === 20) lonOffset = value;
+  });
+
+  const coord = (offset, value) => round((offset + granularity * value) * 1e-9);
+
+  for (const group of groups) {
+    readFields(group, (field, value) => {
+      if (field === 1 && kinds.has('node')) {
+        const node = { type: 'node', keys: [], vals: [] };
+        readFields(value, (f, v) => {
+          if (f === 1) node.id = zigzag(v);
+          else if (f === 2) node.keys = readPacked(v);
+          else if (f === 3) node.vals = readPacked(v);
+          else if (f === 8) node.lat = coord(latOffset, zigzag(v));
+          else if (f === 9) node.lon = coord(lonOffset, zigzag(v));
+        });
+        emit({ type: 'node', id: node.id, lat: node.lat, lon: node.lon, tags: tagsFrom(node.keys, node.vals, strings) });
+      } else if (field === 2 && kinds.has('node')) {
+        let ids = [];
+        let lats = [];
+        let lons = [];
+        let keysVals = [];
+        readFields(value, (f, v) => {
+          if (f === 1) ids = deltaDecode(readPacked(v));
+          else if (f === 8) lats = deltaDecode(readPacked(v));
+          else if (f === 9) lons = deltaDecode(readPacked(v));
+          else if (f === 10) keysVals = readPacked(v);
+        });
+
+        // keys_vals: key, value, key, value, ... 0 between nodes
+        let k = 0;
+        ids.forEach((id, i) => {
+          const tags = {};
+          while (k < keysVals.length && keysVals[k] !== 0) {
+            tags[strings[keysVals[k]]] = strings[keysVals[k + 1]];
+            k += 2;
+          }
+          k++;
+          emit({ type: 'node', id, lat: coord(latOffset, lats[i]), lon: coord(lonOffset, lons[i]), tags });
+        });
+      } else if (field === 3 && kinds.has('way')) {
+        const way = { keys: [], vals: [], refs: [] };
+        readFields(value, (f, v) => {
+          if (f === 1) way.id = v;
+          else if (f === 2) way.keys = readPacked(v);
+          else if (f === 3) way.vals = readPacked(v);
+          else if (f === 8) way.refs = deltaDecode(readPacked(v));
+        });
+        emit({ type: 'way', id: way.id, refs: way.refs, tags: tagsFrom(way.keys, way.vals, strings) });
+      } else if (field === 4 && kinds.has('relation')) {
+        const relation = { keys: [], vals: [], roles: [], memids: [], types: [] };
+        readFields(value, (f, v) => {
+          if (f === 1) relation.id = v;
+          else if (f === 2) relation.keys = readPacked(v);
+          else if (f === 3) relation.vals = readPacked(v);
+          else if (f === 8) relation.roles = readPacked(v);
+          else if (f === 9) relation.memids = deltaDecode(readPacked(v));
+          else if (f === 10) relation.types = readPacked(v);
+        });
+        emit({
+          type: 'relation',
+          id: relation.id,
+          tags: tagsFrom(relation.keys, relation.vals, strings),
+          members: relation.memids.map((ref, i) => ({
+            type: ['node', 'way', 'relation'][relation.types[i]],
+            ref,
+            role: strings[relation.roles[i]] || ''
+          }))
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Stream the file blob by blob and decode each OSMData block
+ */
+function forEachPbfElement(filePath, kinds, emit) {
+  const fd = fs.openSync(filePath, 'r');
+  const readAt = (length, position) => {
+    const buf = Buffer.alloc(length);
+    fs.readSync(fd, buf, 0, length, position);
+    return buf;
+  };
+
+  try {
+    let position = 0;
+    const lengthBuf = Buffer.alloc(4);
+    while (fs.readSync(fd, lengthBuf, 0, 4, position) === 4) {
+      const headerLength = lengthBuf.readUInt32BE(0);
+      position += 4;
+
+      let blobType = '';
+      let dataSize = 0;
+      readFields(readAt(headerLength, position), (field, value) => {
+        if (field === 1) blobType = value.toString('utf8');
+        else if (field === 3) dataSize = value;
+      });
+      position += headerLength;
+
+      const blob = readAt(dataSize, position);
+      position += dataSize;
+      if (blobType !== 'OSMData') continue;
+
+      let data = null;
+      readFields(blob, (field, value) => {
+        if (field === 1) data = value;
+        else if (field === 3) data = zlib.inflateSync(value);
+      });
+      if (!data) throw new Error('Unsupported PBF blob compression (only raw and zlib are)');
+
+      decodePrimitiveBlock(data, kinds, emit);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/* ---------- JSON input ---------- */
+
+/**
+ * Overpass JSON (`out body` with `>;` recursion, or `out geom`), normalized to
+ * the PBF reader's element shape
+ */
+function jsonElementReader(filePath) {
+  const elements = JSON.parse(fs.readFileSync(filePath, 'utf8')).elements || [];
+
+  return (kinds, emit) => {
+    for (const el of elements) {
+      if (!kinds.has(el.type)) continue;
+      if (el.type === 'way') emit({ ...el, tags: el.tags || {}, refs: el.nodes || [] });
+      else emit({ ...el, tags: el.tags || {} });
+    }
+  };
+}
+
+/* ---------- Selection ---------- */
+
+function inBbox(point, bbox) {
+  return point.lat >= bbox.south && point.lat <= bbox.north && point.lon >= bbox.west && point.lon <= bbox.east;
+}
+
+/**
+ * Three passes so only needed node coordinates are held in memory: relations
+ * name their member ways, ways name their nodes, then nodes are read.
+ */
+function selectElements(readElements, bbox) {
+  // Pass 1: places and seating areas mapped as multipolygons
+  const relations = [];
+  const memberWayIds = new Set();
+  readElements(new Set(['relation']), rel => {
+    if (!(isPlace(rel.tags) || isTerrace(rel.tags))) return;
+    relations.push(rel);
+    rel.members.filter(m => m.type === 'way' && !m.geometry).forEach(m => memberWayIds.add(m.ref));
+  });
+  console.log(`  relations: ${relations.length}`);
+
+  // Pass 2: tagged ways and relation members
+  const ways = [];
+  const memberRefs = new Map();
+  const neededNodes = new Set();
+  readElements(new Set(['way']), way => {
+    const wanted = isPlace(way.tags) || isStreet(way.tags) || isTerrace(way.tags);
+    if (wanted) ways.push(way);
+    if (memberWayIds.has(way.id)) memberRefs.set(way.id, way.refs);
+    if ((wanted || memberWayIds.has(way.id)) && !way.geometry) way.refs.forEach(ref => neededNodes.add(ref));
+  });
+  console.log(`  ways: ${ways.length} (+${memberRefs.size} relation members)`);
+
+  // Pass 3: place nodes and the coordinates ways need
+  const places = [];
+  const coords = new Map();
+  readElements(new Set(['node']), node => {
+    if (neededNodes.has(node.id)) coords.set(node.id, { lat: node.lat, lon: node.lon });
+    if (isPlace(node.tags) && inBbox(node, bbox)) places.push(node);
+  });
+  console.log(`  nodes: ${places.length} places, ${coords.size} geometry nodes`);
+
+  const geometryOf = refs => refs.map(ref => coords.get(ref)).filter(Boolean);
+
+  const wayElements = ways
+    .map(way => ({ type: 'way', id: way.id, tags: way.tags, geometry: way.geometry || geometryOf(way.refs) }))
+    .filter(way => way.geometry.length >= 2 && way.geometry.some(point => inBbox(point, bbox)));
+
+  const relationElements = relations
+    .map(rel => ({
+      type: 'relation',
+      id: rel.id,
+      tags: rel.tags,
+      members: rel.members
+        .filter(m => m.type === 'way')
+        .map(m => ({ type: 'way', ref: m.ref, role: m.role, geometry: m.geometry || geometryOf(memberRefs.get(m.ref) || []) }))
+    }))
+    .filter(rel => rel.members.some(m => m.geometry.some(point => inBbox(point, bbox))));
+
+  return [
+    ...places.map(node => ({ type: 'node', id: node.id, lat: node.lat, lon: node.lon, tags: node.tags })),
+    ...wayElements,
+    ...relationElements
+  ];
+}
+
+/**
+ * Main import function
+ */
+function importOsmExtract(options = {}) {
+  console.log('🗺️ OSM Extract Importer');
+  console.log('=======================');
+
+  if (!options.input) throw new Error('Missing --input=<extract.osm.pbf|extract.osm.json>');
+
+  const bbox = options.bbox || CONFIG.bbox;
+  const outputPath = options.output || CONFIG.outputPath;
+  console.log(`Input: ${options.input}`);
+  console.log(`Bounds: ${bbox.south},${bbox.west} → ${bbox.north},${bbox.east}`);
+
+  const readElements = options.input.endsWith('.pbf')
+    ? (kinds, emit) => forEachPbfElement(options.input, kinds, emit)
+    : jsonElementReader(options.input);
+
+  const elements = selectElements(readElements, bbox);
+
+  const outputDir = path.dirname(outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, JSON.stringify({
+    generator: 'import-osm-extract',
+    source: path.basename(options.input),
+    timestamp: new Date().toISOString(),
+    bbox,
+    elements
+  }));
+
+  const places = elements.filter(el => isPlace(el.tags)).length;
+  const streets = elements.filter(el => isStreet(el.tags)).length;
+  const terraces = elements.filter(el => isTerrace(el.tags)).length;
+
+  console.log('✅ Import complete!');
+  console.log(`📁 Output file: ${outputPath}`);
+  console.log(`📊 ${places} places, ${streets} streets, ${terraces} seating areas`);
+  console.log(`💾 File size: ${(fs.statSync(outputPath).size / 1024 / 1024).toFixed(1)} MB`);
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {};
+
+  for (const arg of args) {
+    if (arg.startsWith('--input=')) {
+      options.input = arg.split('=')[1];
+    } else if (arg.startsWith('--output=')) {
+      options.output = arg.split('=')[1];
+    } else if (arg.startsWith('--bbox=')) {
+      const [south, west, north, east] = arg.split('=')[1].split(',').map(v => parseFloat(v.trim()));
+      options.bbox = { south, west, north, east };
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Run if called directly
+ */
+if (require.main === module) {
+  try {
+    importOsmExtract(parseArgs());
+  } catch (error) {
+    console.error('❌ Import failed:', error);
+    process.exit(1);
+  }
+}
+
+module.exports = { importOsmExtract, CONFIG };
@@ -0,0 +1,71 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { buildBuildingIndex, castSunRay, parseBuildingHeight, parseBuildings } from "@/app/lib/buildings";
+
+// Six buildings around Saint-Sulpice (Overpass `out geom` shape)
+const fixture = JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", "buildings.json"), "utf8"));
+const index = buildBuildingIndex(parseBuildings(fixture), "fixture");
+
+// suncalc azimuths: 0 = south, π/2 = west
+const SOUTH = 0;
+const NORTH = Math.PI;
+const EAST = -Math.PI / 2;
+const rad = (value: number) => (value * Math.PI) / 180;
+
+// Between way/1001 (16 m north, 18 m tall) and way/1002 (11 m south, 24 m tall)
+const STREET = { lat: 48.854, lon: 2.332 };
+
+describe("parseBuildingHeight", () => {
+  test("prefers height, then levels, then the default", () => {
+    assert.deepEqual(parseBuildingHeight({ height: "56 m" }), { height: 56, heightSource: "height" });
+    assert.deepEqual(parseBuildingHeight({ "building:levels": "5", "roof:levels": "1" }), { height: 16.5, heightSource: "levels" });
+    assert.deepEqual(parseBuildingHeight({ building: "yes" }), { height: 12, heightSource: "default" });
+  });
+});
+
+describe("parseBuildings", () => {
+  test("reads every fixture way as a closed ring", () => {
+    assert.equal(index.buildings.length, 6);
+    for (const building of index.buildings) {
+      assert.deepEqual(building.polygon[0], building.polygon[building.polygon.length - 1]);
+    }
+  });
+});
+
+describe("castSunRay", () => {
+  test("a low sun behind a tall building is blocked", () => {
+    const blocker = castSunRay(index, STREET.lat, STREET.lon, SOUTH, rad(20));
+    assert.equal(blocker?.id, "way/1002");
+    assert.equal(blocker?.heightSource, "height");
+    assert.ok(Math.abs(blocker!.distance - 11) < 1);
+  });
+
+  test("a high sun clears the same building", () => {
+    assert.equal(castSunRay(index, STREET.lat, STREET.lon, SOUTH, rad(80)), null);
+  });
+
+  test("uses the building toward the sun", () => {
+    assert.equal(castSunRay(index, STREET.lat, STREET.lon, NORTH, rad(30))?.id, "way/1001");
+  });
+
+  test("a low kiosk doesn't block, a taller building further along does", () => {
+    assert.equal(castSunRay(index, STREET.lat, STREET.lon, EAST, rad(15))?.id, "way/1004");
+    assert.equal(castSunRay(index, STREET.lat, STREET.lon, EAST, rad(60)), null);
+  });
+
+  test("ignores the building the café is in", () => {
+    const inside = { lat: 48.85375, lon: 2.332 }; // in way/1002
+    assert.equal(castSunRay(index, inside.lat, inside.lon, SOUTH, rad(10)), null);
+    assert.equal(castSunRay(index, inside.lat, inside.lon, NORTH, rad(10))?.id, "way/1001");
+  });
+
+  test("no sun below the horizon", () => {
+    assert.equal(castSunRay(index, STREET.lat, STREET.lon, SOUTH, rad(-5)), null);
+  });
+
+  test("nothing blocks outside the covered area", () => {
+    assert.equal(castSunRay(index, 48.87, 2.35, SOUTH, rad(5)), null);
+  });
+});
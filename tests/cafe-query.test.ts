@@ -0,0 +1,28 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildGridIndex, parseCafeQuery, searchGrid } from "@/app/lib/cafe-query";
+
+const places = [
+  { id: "node/1", lat: 48.8542, lon: 2.332 }, // Saint-Germain
+  { id: "node/2", lat: 48.8867, lon: 2.3431 }, // Montmartre
+  { id: "node/3", lat: 48.8534, lon: 2.3488 }, // Île de la Cité
+];
+const index = buildGridIndex(places);
+
+describe("searchGrid", () => {
+  test("finds the places inside a box, in dataset order", () => {
+    const hits = searchGrid(index, [48.85, 2.33, 48.86, 2.35]);
+    assert.deepEqual(hits.map(place => place.id), ["node/1", "node/3"]);
+  });
+
+  test("a box covering the world returns everything without walking every cell", () => {
+    const hits = searchGrid(index, [-85.1, -191.3, 85.1, 191.3]);
+    assert.deepEqual(hits.map(place => place.id), ["node/1", "node/2", "node/3"]);
+  });
+});
+
+describe("parseCafeQuery", () => {
+  test("rejects inverted boxes", () => {
+    assert.equal(parseCafeQuery(new URLSearchParams("bbox=48.86,2.33,48.85,2.35")), "invalid_bbox");
+  });
+});
@@ -0,0 +1,36 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createJsonStore } from "@/app/lib/json-store";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-store-"));
+process.env.TEST_STORE_PATH = path.join(dir, "items.json");
+const store = createJsonStore<{ id: number }>("TEST_STORE_PATH", "items.json");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe("createJsonStore", () => {
+  test("starts empty and persists updates", async () => {
+    assert.deepEqual(await store.read(), []);
+    await store.update(items => items.push({ id: 1 }));
+    assert.deepEqual(await store.read(), [{ id: 1 }]);
+  });
+
+  test("moves an unparseable file aside instead of overwriting it", async () => {
+    fs.writeFileSync(process.env.TEST_STORE_PATH!, '[{"id": 1}, {"id"');
+    await store.update(items => items.push({ id: 2 }));
+    assert.deepEqual(await store.read(), [{ id: 2 }]);
+
+    const aside = fs.readdirSync(dir).filter(name => name.startsWith("items.json.corrupt-"));
+    assert.equal(aside.length, 1);
+    assert.equal(fs.readFileSync(path.join(dir, aside[0]), "utf8"), '[{"id": 1}, {"id"');
+  });
+
+  test("other read errors are thrown", async () => {
+    fs.rmSync(process.env.TEST_STORE_PATH!);
+    fs.mkdirSync(process.env.TEST_STORE_PATH!); // EISDIR
+    await assert.rejects(store.read());
+    await assert.rejects(store.update(items => items.push({ id: 3 })));
+  });
+});
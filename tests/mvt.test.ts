@@ -0,0 +1,128 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { encodePointTile, projectToTile, TILE_EXTENT, tileBounds, type TilePoint } from "@/app/lib/mvt";
+
+type Field = { field: number; value: number | Uint8Array };
+
+// Just enough protobuf to read the tiles back: varints, fixed64 and bytes
+function reader(bytes: Uint8Array) {
+  let pos = 0;
+  const varint = () => {
+    let value = 0;
+    let scale = 1;
+    while (bytes[pos] & 0x80) {
+      value += (bytes[pos++] & 0x7f) * scale;
+      scale *= 128;
+    }
+    return value + bytes[pos++] * scale;
+  };
+  const take = (length: number) => bytes.slice(pos, (pos += length));
+  return { varint, take, done: () => pos >= bytes.length };
+}
+
+function readFields(bytes: Uint8Array): Field[] {
+  const fields: Field[] = [];
+  const read = reader(bytes);
+  while (!read.done()) {
+    const tag = read.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    if (wireType === 0) fields.push({ field, value: read.varint() });
+    else fields.push({ field, value: read.take(wireType === 1 ? 8 : read.varint()) });
+  }
+  return fields;
+}
+
+function packed(bytes: Uint8Array): number[] {
+  const values: number[] = [];
+  const read = reader(bytes);
+  while (!read.done()) values.push(read.varint());
+  return values;
+}
+
+const unzigzag = (n: number) => (n % 2 ? -(n + 1) / 2 : n / 2);
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+function decodeValue(bytes: Uint8Array) {
+  const [{ field, value }] = readFields(bytes);
+  if (field === 1) return text(value as Uint8Array);
+  if (field === 3) return Buffer.from(value as Uint8Array).readDoubleLE();
+  if (field === 6) return unzigzag(value as number);
+  return value === 1;
+}
+
+function decodeTile(tile: Uint8Array) {
+  const layers = readFields(tile).filter(f => f.field === 3);
+  assert.equal(layers.length, 1);
+  const fields = readFields(layers[0].value as Uint8Array);
+  const get = (field: number) => fields.filter(f => f.field === field).map(f => f.value);
+  const keys = get(3).map(key => text(key as Uint8Array));
+  const values = get(4).map(value => decodeValue(value as Uint8Array));
+  const features = get(2).map(feature => {
+    const parts = readFields(feature as Uint8Array);
+    const tags = packed(parts.find(p => p.field === 2)!.value as Uint8Array);
+    const geometry = packed(parts.find(p => p.field === 4)!.value as Uint8Array);
+    const properties: Record<string, unknown> = {};
+    for (let i = 0; i < tags.length; i += 2) properties[keys[tags[i]]] = values[tags[i + 1]];
+    return {
+      type: parts.find(p => p.field === 3)!.value,
+      geometry: [geometry[0], unzigzag(geometry[1]), unzigzag(geometry[2])],
+      properties,
+    };
+  });
+  return { version: get(15)[0], name: text(get(1)[0] as Uint8Array), extent: get(5)[0], keys, values, features };
+}
+
+// The zoom 15 tile holding Saint-Germain-des-Prés
+const [Z, X, Y] = [15, 16596, 11273];
+
+describe("tileBounds and projectToTile", () => {
+  test("a tile's corners project to 0 and the extent", () => {
+    const [west, south, east, north] = tileBounds(Z, X, Y);
+    assert.ok(west < 2.333 && east > 2.333 && south < 48.854 && north > 48.854);
+    assert.deepEqual(projectToTile(west, north, Z, X, Y), [0, 0]);
+    assert.deepEqual(projectToTile(east, south, Z, X, Y), [TILE_EXTENT, TILE_EXTENT]);
+  });
+
+  test("a buffer grows the bounds by that many tile pixels", () => {
+    const [west, south, east, north] = tileBounds(Z, X, Y, 64);
+    assert.deepEqual(projectToTile(west, north, Z, X, Y), [-64, -64]);
+    assert.deepEqual(projectToTile(east, south, Z, X, Y), [TILE_EXTENT + 64, TILE_EXTENT + 64]);
+  });
+});
+
+describe("encodePointTile", () => {
+  const [west, south, east, north] = tileBounds(Z, X, Y);
+  const inside = (fx: number, fy: number) => ({ lon: west + (east - west) * fx, lat: north - (north - south) * fy });
+
+  const points: TilePoint[] = [
+    { ...inside(0.25, 0.25), properties: { id: "node/1", score_0: 0.8, open_0: true, arrondissement: 6 } },
+    { ...inside(0.75, 0.5), properties: { id: "node/2", score_0: 0.8, open_0: false, arrondissement: 6, name: null } },
+    { lon: east + 0.01, lat: north, properties: { id: "node/3" } }, // next tile over
+  ];
+  const tile = decodeTile(encodePointTile("cafes", points, Z, X, Y));
+
+  test("writes one version 2 layer with the extent", () => {
+    assert.equal(tile.version, 2);
+    assert.equal(tile.name, "cafes");
+    assert.equal(tile.extent, TILE_EXTENT);
+  });
+
+  test("leaves out points outside the tile buffer", () => {
+    assert.deepEqual(tile.features.map(feature => feature.properties.id), ["node/1", "node/2"]);
+  });
+
+  test("encodes each point as a MoveTo in tile pixels", () => {
+    assert.equal(tile.features[0].type, 1);
+    points.slice(0, 2).forEach((point, i) => {
+      assert.deepEqual(tile.features[i].geometry, [9, ...projectToTile(point.lon, point.lat, Z, X, Y)]);
+    });
+    assert.equal(tile.features[1].geometry[1], 3072); // longitude is linear in x
+  });
+
+  test("shares keys and values across features and skips nulls", () => {
+    assert.deepEqual(tile.keys, ["id", "score_0", "open_0", "arrondissement"]);
+    assert.deepEqual(tile.values, ["node/1", 0.8, true, 6, "node/2", false]);
+    assert.deepEqual(tile.features[1].properties, { id: "node/2", score_0: 0.8, open_0: false, arrondissement: 6 });
+  });
+});
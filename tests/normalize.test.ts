@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  normalizeCafes,
+  normalizeName,
+  normalizePhone,
+  normalizePostcode,
+  normalizeStreet,
+  normalizeTags,
+  normalizeUrl,
+} from "@/app/lib/normalize";
+
+describe("field normalization", () => {
+  test("names", () => {
+    assert.equal(normalizeName('  "CAFÉ  DE LA PAIX" '), "Café De La Paix");
+    assert.equal(normalizeName("STARBUCKS - Opéra", "Starbucks"), "Starbucks - Opéra");
+    assert.equal(normalizeName("   "), null);
+    assert.equal(normalizeName(undefined), null);
+  });
+
+  test("streets and postcodes", () => {
+    assert.equal(normalizeStreet("BD SAINT-GERMAIN"), "Boulevard Saint-Germain");
+    assert.equal(normalizeStreet("r. de Buci"), "Rue de Buci");
+    assert.equal(normalizePostcode("75 006"), "75006");
+  });
+
+  test("French phone numbers", () => {
+    assert.equal(normalizePhone("01 42 22 55 55"), "+33 1 42 22 55 55");
+    assert.equal(normalizePhone("+33 (0)1 42 22 55 55"), "+33 1 42 22 55 55");
+    assert.equal(normalizePhone("0033142225555"), "+33 1 42 22 55 55");
+    assert.equal(normalizePhone("01.42.22.55.55, 06 12 34 56 78"), "+33 1 42 22 55 55; +33 6 12 34 56 78");
+    assert.equal(normalizePhone(" +44 20 7946 0958 "), "+44 20 7946 0958");
+  });
+
+  test("websites", () => {
+    assert.equal(normalizeUrl("www.Example.com/menu"), "https://www.example.com/menu");
+    assert.equal(normalizeUrl("http://cafe.fr"), "http://cafe.fr/");
+  });
+
+  test("contact:* tags fill in the plain keys", () => {
+    const tags = normalizeTags({ "contact:phone": "0142225555", "contact:website": "cafe.fr", "addr:city": "PARIS 11E" });
+    assert.equal(tags.phone, "+33 1 42 22 55 55");
+    assert.equal(tags.website, "https://cafe.fr/");
+    assert.equal(tags["addr:city"], "Paris");
+  });
+});
+
+type Place = { id: string; name: string | null; lat: number; lon: number; tags: Record<string, any> };
+
+describe("normalizeCafes", () => {
+  const point: Place = { id: "node/1", name: "Le Select", lat: 48.8425, lon: 2.3289, tags: { amenity: "cafe", name: "Le Select" } };
+  const outline: Place = {
+    id: "way/2",
+    name: "LE SELECT",
+    lat: 48.84255, // ~6 m away
+    lon: 2.32895,
+    tags: { amenity: "cafe", name: "LE SELECT", "addr:street": "Boulevard du Montparnasse", outdoor_seating: "yes" },
+  };
+  const namesake: Place = { id: "node/3", name: "Le Select", lat: 48.8525, lon: 2.3289, tags: { amenity: "cafe" } }; // ~1 km away
+
+  test("merges same-name places within the duplicate distance into the richest entry", () => {
+    const result = normalizeCafes([point, outline, namesake]);
+    assert.deepEqual(result.map(cafe => cafe.id), ["way/2", "node/3"]);
+
+    const merged = result[0];
+    assert.equal(merged.name, "Le Select");
+    assert.deepEqual(merged.mergedIds, ["node/1"]);
+    assert.equal(merged.tags.outdoor_seating, "yes");
+    assert.deepEqual(merged.missing, ["opening_hours"]);
+
+    assert.equal(result[1].mergedIds, undefined);
+    assert.deepEqual(result[1].missing, ["address", "opening_hours"]);
+  });
+
+  test("re-normalizing keeps earlier merges", () => {
+    const again = normalizeCafes(normalizeCafes([point, outline]));
+    assert.equal(again.length, 1);
+    assert.deepEqual(again[0].mergedIds, ["node/1"]);
+  });
+
+  test("different names are never merged", () => {
+    const other: Place = { ...point, id: "node/4", name: "La Rotonde", tags: { amenity: "cafe" } };
+    assert.equal(normalizeCafes([point, other]).length, 2);
+  });
+});
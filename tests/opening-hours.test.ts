@@ -0,0 +1,88 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isFrenchPublicHoliday, isOpenAt, parseOpeningHours } from "@/app/lib/opening-hours";
+
+// Paris wall-clock times; 2026-10-19 is a Monday, summer time ends on the 25th
+const summer = (local: string) => new Date(`${local}+02:00`);
+const winter = (local: string) => new Date(`${local}+01:00`);
+
+const openAt = (value: string, time: Date) => {
+  const hours = parseOpeningHours(value);
+  assert.ok(hours, `expected "${value}" to parse`);
+  return isOpenAt(hours, time);
+};
+
+describe("parseOpeningHours", () => {
+  test("rejects values outside the supported subset", () => {
+    assert.equal(parseOpeningHours("Jan-Mar Mo-Fr 08:00-18:00"), null);
+    assert.equal(parseOpeningHours("Mo-Fr sunrise-sunset"), null);
+    assert.equal(parseOpeningHours("Xx 08:00-18:00"), null);
+    assert.equal(parseOpeningHours(""), null);
+    assert.equal(parseOpeningHours(undefined), null);
+  });
+
+  test("ignores comments", () => {
+    assert.ok(parseOpeningHours('Mo-Fr 08:00-18:00 "terrasse en été"'));
+  });
+});
+
+describe("isOpenAt", () => {
+  const week = "Mo-Fr 08:00-19:00; Sa 09:00-18:00; Su off";
+
+  test("weekday ranges and closed days", () => {
+    assert.equal(openAt(week, summer("2026-10-19T10:00")), true);
+    assert.equal(openAt(week, summer("2026-10-19T19:30")), false);
+    assert.equal(openAt(week, summer("2026-10-24T08:30")), false);
+    assert.equal(openAt(week, summer("2026-10-24T09:00")), true);
+    assert.equal(openAt(week, winter("2026-10-25T12:00")), false);
+  });
+
+  test("intervals end exclusively", () => {
+    assert.equal(openAt(week, summer("2026-10-19T19:00")), false);
+  });
+
+  test("several intervals per day", () => {
+    const lunchBreak = "Mo-Fr 08:00-12:00,14:00-18:00";
+    assert.equal(openAt(lunchBreak, summer("2026-10-20T11:59")), true);
+    assert.equal(openAt(lunchBreak, summer("2026-10-20T13:00")), false);
+    assert.equal(openAt(lunchBreak, summer("2026-10-20T14:00")), true);
+  });
+
+  test("intervals past midnight spill into the next day", () => {
+    const late = "Mo-Sa 07:00-02:00; Su off";
+    assert.equal(openAt(late, summer("2026-10-24T01:00")), true); // Friday night
+    assert.equal(openAt(late, summer("2026-10-24T03:00")), false);
+    assert.equal(openAt(late, summer("2026-10-26T01:00")), false); // Sunday was off
+  });
+
+  test("wrapping weekday ranges", () => {
+    const weekend = "Fr-Mo 10:00-16:00";
+    assert.equal(openAt(weekend, winter("2026-10-25T12:00")), true);
+    assert.equal(openAt(weekend, summer("2026-10-21T12:00")), false);
+  });
+
+  test("24/7", () => {
+    assert.equal(openAt("24/7", summer("2026-10-21T04:00")), true);
+  });
+
+  test("public holidays override weekdays", () => {
+    const hours = "Mo-Su 08:00-20:00; PH off";
+    assert.equal(openAt(hours, winter("2026-11-11T12:00")), false); // Armistice, a Wednesday
+    assert.equal(openAt(hours, winter("2026-11-12T12:00")), true);
+  });
+
+  test("evaluates in Paris time after the clocks change", () => {
+    assert.equal(openAt(week, new Date("2026-10-26T07:30:00Z")), true); // 08:30 CET
+    assert.equal(openAt(week, new Date("2026-10-26T06:30:00Z")), false); // 07:30 CET
+  });
+});
+
+describe("isFrenchPublicHoliday", () => {
+  test("fixed and Easter-based holidays", () => {
+    assert.equal(isFrenchPublicHoliday("2026-07-14"), true);
+    assert.equal(isFrenchPublicHoliday("2026-04-06"), true); // Easter Monday
+    assert.equal(isFrenchPublicHoliday("2026-05-14"), true); // Ascension Day
+    assert.equal(isFrenchPublicHoliday("2026-05-25"), true); // Whit Monday
+    assert.equal(isFrenchPublicHoliday("2026-04-07"), false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { rankPlaces, recommendPlace, type RecommendOptions, type ScoredPlace } from "@/app/lib/recommend";
+
+// Hourly steps from 14:00 Paris time
+const hours = ["12:00", "13:00", "14:00", "15:00", "16:00"].map(time => `2026-10-19T${time}:00.000Z`);
+const options: RecommendOptions = {
+  now: new Date("2026-10-19T12:00:00Z"),
+  within: 120,
+  maxWalkMin: 15,
+  stepMinutes: 60,
+  favorites: new Set(),
+};
+
+const place = (id: string, distance: number, scoreByHour: number[], openByHour?: boolean[]): ScoredPlace => ({
+  id,
+  name: id,
+  distance,
+  scoreByHour,
+  openByHour,
+});
+const SUNNY = [1, 1, 1, 1, 1];
+const OPEN = [true, true, true, true, true];
+
+describe("recommendPlace", () => {
+  test("counts the sun from walking arrival", () => {
+    const rec = recommendPlace(place("a", 750, [0, 1, 1, 1, 1], OPEN), hours, options); // 10 min walk
+    assert.equal(rec.walkMinutes, 10);
+    assert.equal(rec.arrival, "2026-10-19T12:10:00.000Z");
+    assert.equal(rec.sunMinutes, 70); // 13:00-14:10 UTC
+    assert.equal(rec.openShare, 1);
+  });
+
+  test("a long walk costs up to half the score", () => {
+    const near = recommendPlace(place("near", 75, SUNNY, OPEN), hours, options);
+    const far = recommendPlace(place("far", 1125, SUNNY, OPEN), hours, options);
+    assert.equal(far.score, 0.5);
+    assert.ok(near.score > far.score);
+  });
+
+  test("unknown opening hours and closing during the visit lower the score", () => {
+    const open = recommendPlace(place("open", 75, SUNNY, OPEN), hours, options);
+    const unknown = recommendPlace(place("unknown", 75, SUNNY), hours, options);
+    const closing = recommendPlace(place("closing", 75, SUNNY, [true, false, false, false, false]), hours, options);
+    assert.equal(unknown.openShare, null);
+    assert.ok(unknown.score < open.score);
+    assert.ok(closing.score < unknown.score);
+    assert.match(closing.reason, /closes during your visit/);
+  });
+
+  test("favorites get a bonus", () => {
+    const favorites = new Set(["fav"]);
+    const plain = recommendPlace(place("plain", 75, SUNNY, OPEN), hours, options);
+    const fav = recommendPlace(place("fav", 75, SUNNY, OPEN), hours, { ...options, favorites });
+    assert.equal(fav.favorite, true);
+    assert.ok(Math.abs(fav.score - plain.score * 1.2) < 0.002);
+    assert.match(fav.reason, /favorite/);
+  });
+});
+
+describe("rankPlaces", () => {
+  test("highest score first, nearest on ties", () => {
+    const ranked = rankPlaces(
+      [
+        place("far", 1125, SUNNY, OPEN),
+        place("b", 80, SUNNY, OPEN), // both round to a 1 min walk
+        place("a", 70, SUNNY, OPEN),
+      ],
+      hours,
+      options,
+      5
+    );
+    assert.deepEqual(ranked.map(rec => rec.id), ["a", "b", "far"]);
+  });
+
+  test("never recommends places without sun or closed the whole visit", () => {
+    const ranked = rankPlaces(
+      [
+        place("shade", 75, [0, 0, 0, 0, 0], OPEN),
+        place("closed", 75, SUNNY, [false, false, false, false, false]),
+        place("sunny", 1125, SUNNY, OPEN),
+      ],
+      hours,
+      options,
+      5
+    );
+    assert.deepEqual(ranked.map(rec => rec.id), ["sunny"]);
+    assert.deepEqual(rankPlaces([place("shade", 75, [0, 0, 0, 0, 0], OPEN)], hours, options, 5), []);
+  });
+
+  test("keeps at most limit places", () => {
+    const places = ["a", "b", "c"].map((id, i) => place(id, 100 + i * 300, SUNNY, OPEN));
+    assert.deepEqual(rankPlaces(places, hours, options, 2).map(rec => rec.id), ["a", "b"]);
+  });
+});